@@ -1,26 +1,35 @@
-import { User, Partnership } from "@shared/schema";
+import { User, Partnership, getPartnershipWeek } from "@shared/schema";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MessageCircle, AlertTriangle, Clock, MapPin } from "lucide-react";
+import { MessageCircle, AlertTriangle, Clock, MapPin, LogOut } from "lucide-react";
 import { useState } from "react";
+import PartnershipProgress from "@/components/partnership-progress";
+import PartnershipExtensionPanel from "@/components/partnership-extension";
+import PresenceIndicator from "@/components/presence-indicator";
+import { usePartnerPresence } from "@/hooks/use-partner-presence";
 
 interface CurrentPartnershipProps {
   partnership: Partnership;
   partner: User;
+  additionalPartners?: User[];
   currentUser: User;
   onSendMessage: () => void;
   onReportIssue: (partnerId: string) => void;
+  onEndPartnership: () => void;
 }
 
 export default function CurrentPartnership({ 
   partnership, 
   partner, 
+  additionalPartners = [],
   currentUser, 
   onSendMessage, 
-  onReportIssue 
+  onReportIssue,
+  onEndPartnership
 }: CurrentPartnershipProps) {
   const [isReporting, setIsReporting] = useState(false);
+  const { presence, typingUserIds } = usePartnerPresence(partnership.id);
 
   const getInitials = (name: string | null) => {
     if (!name || typeof name !== 'string') {
@@ -34,22 +43,7 @@ export default function CurrentPartnership({
       .slice(0, 2);
   };
 
-  const getWeekProgress = () => {
-    const start = new Date(partnership.startDate);
-    const end = new Date(partnership.endDate);
-    const now = new Date();
-    
-    const totalDuration = end.getTime() - start.getTime();
-    const elapsed = now.getTime() - start.getTime();
-    const progress = Math.min(Math.max(elapsed / totalDuration, 0), 1);
-    
-    const totalWeeks = Math.ceil(totalDuration / (7 * 24 * 60 * 60 * 1000));
-    const currentWeek = Math.ceil(elapsed / (7 * 24 * 60 * 60 * 1000));
-    
-    return { currentWeek: Math.max(1, currentWeek), totalWeeks, progress };
-  };
-
-  const { currentWeek, totalWeeks } = getWeekProgress();
+  const { week: currentWeek, totalWeeks } = getPartnershipWeek(partnership);
 
   const formatGender = (gender: string | null) => {
     if (!gender) return 'Not specified';
@@ -83,7 +77,14 @@ export default function CurrentPartnership({
                 <span>{getInitials(partner.name)}</span>
               </div>
               <div className="flex-1">
-                <h3 className="text-xl font-semibold mb-2" data-testid="text-partner-name">{partner.name}</h3>
+                <h3 className="text-xl font-semibold" data-testid="text-partner-name">{partner.name}</h3>
+                <div className="mb-2">
+                  {typingUserIds.includes(partner.id) ? (
+                    <span className="text-sm text-muted-foreground italic" data-testid={`typing-${partner.id}`}>Typing...</span>
+                  ) : (
+                    <PresenceIndicator userId={partner.id} presence={presence[partner.id]} />
+                  )}
+                </div>
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
                   <div className="flex items-center text-muted-foreground">
                     <MapPin className="w-4 h-4 mr-2" />
@@ -100,6 +101,23 @@ export default function CurrentPartnership({
                     <span data-testid="text-partner-joined">Joined {new Date(partner.createdAt!).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</span>
                   </div>
                 </div>
+                {additionalPartners.length > 0 && (
+                  <>
+                    <p className="text-sm text-muted-foreground mt-3" data-testid="text-triad-members">
+                      Your group also includes {additionalPartners.map(p => p.name || 'TI User').join(' and ')}.
+                    </p>
+                    {additionalPartners.map((member) => (
+                      <div key={member.id} className="text-sm">
+                        <span className="font-medium mr-2">{member.name || 'TI User'}</span>
+                        {typingUserIds.includes(member.id) ? (
+                          <span className="text-muted-foreground italic" data-testid={`typing-${member.id}`}>Typing...</span>
+                        ) : (
+                          <PresenceIndicator userId={member.id} presence={presence[member.id]} />
+                        )}
+                      </div>
+                    ))}
+                  </>
+                )}
               </div>
             </div>
 
@@ -122,10 +140,29 @@ export default function CurrentPartnership({
                   <AlertTriangle className="w-4 h-4 mr-2" />
                   {isReporting ? "Reporting..." : "Report Issue"}
                 </Button>
+                <Button 
+                  variant="outline"
+                  onClick={onEndPartnership}
+                  data-testid="button-end-partnership"
+                >
+                  <LogOut className="w-4 h-4 mr-2" />
+                  End Partnership
+                </Button>
               </div>
             </div>
           </div>
 
+          <PartnershipExtensionPanel
+            partnership={partnership}
+            members={[currentUser, partner, ...additionalPartners]}
+            currentUser={currentUser}
+          />
+
+          <PartnershipProgress
+            partnership={partnership}
+            members={[currentUser, partner, ...additionalPartners]}
+            currentUser={currentUser}
+          />
         </CardContent>
       </Card>
     </div>
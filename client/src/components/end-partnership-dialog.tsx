@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { User, Partnership } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface EndPartnershipResult {
+  partnership: Partnership;
+  rematch: { partnership: Partnership | null; waiting: boolean } | null;
+  rematchError?: string;
+}
+
+interface EndPartnershipDialogProps {
+  partnership: Partnership;
+  partners: User[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function EndPartnershipDialog({ partnership, partners, open, onOpenChange }: EndPartnershipDialogProps) {
+  const [reason, setReason] = useState("");
+  const [excludePartner, setExcludePartner] = useState(false);
+  const [requestRematch, setRequestRematch] = useState(false);
+  const { toast } = useToast();
+
+  const partnerNames = partners.map((partner) => partner.name || "your partner").join(" and ");
+
+  const endPartnership = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/partnerships/${partnership.id}/end`, {
+        reason,
+        excludePartner,
+        requestRematch,
+      });
+      return response.json() as Promise<EndPartnershipResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Partnership Ended",
+        description: result.rematch?.partnership
+          ? "We found you a new partner from the waiting pool."
+          : result.rematch?.waiting
+            ? "You're in the waiting pool and will be matched as soon as someone compatible is available."
+            : result.rematchError
+              ? `Your partner has been notified, but we couldn't find you a new partner: ${result.rematchError}`
+              : "Your partner has been notified. You'll be included in the next match round.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/partnerships/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/partnerships/history'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist/me'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/exclusions'] });
+      onOpenChange(false);
+      setReason("");
+      setExcludePartner(false);
+      setRequestRematch(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to end partnership",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent data-testid="dialog-end-partnership">
+        <DialogHeader>
+          <DialogTitle>End Partnership Early</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          {partnerNames.charAt(0).toUpperCase() + partnerNames.slice(1)} will be told the partnership has ended.
+          Your reason is only shared with admins.
+        </p>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="end-reason">Why are you ending the partnership?</Label>
+            <Textarea
+              id="end-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              maxLength={500}
+              placeholder="For example: our schedules don't line up"
+              data-testid="input-end-reason"
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="end-exclude"
+              checked={excludePartner}
+              onCheckedChange={(checked) => setExcludePartner(checked === true)}
+              data-testid="checkbox-exclude-partner"
+            />
+            <Label htmlFor="end-exclude" className="font-normal">
+              Don't match me with {partnerNames} again
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="end-rematch"
+              checked={requestRematch}
+              onCheckedChange={(checked) => setRequestRematch(checked === true)}
+              data-testid="checkbox-request-rematch"
+            />
+            <Label htmlFor="end-rematch" className="font-normal">
+              Find me a new partner now instead of waiting for the next round
+            </Label>
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={() => endPartnership.mutate()}
+            disabled={!reason.trim() || endPartnership.isPending}
+            data-testid="button-confirm-end-partnership"
+          >
+            {endPartnership.isPending ? "Ending..." : "End Partnership"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,6 @@
 import { User } from "@shared/schema";
 import { Link, useLocation } from "wouter";
-import { Handshake, LogOut, Menu, X } from "lucide-react";
+import { Handshake, LogOut, Menu, MessageCircle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useState } from "react";
@@ -8,9 +8,10 @@ import { useState } from "react";
 interface HeaderProps {
   user: User;
   hasActiveMatch?: boolean;
+  unreadMessages?: number;
 }
 
-export default function Header({ user, hasActiveMatch }: HeaderProps) {
+export default function Header({ user, hasActiveMatch, unreadMessages = 0 }: HeaderProps) {
   const [location] = useLocation();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
@@ -148,6 +149,16 @@ export default function Header({ user, hasActiveMatch }: HeaderProps) {
                 Active Match
               </div>
             )}
+            {unreadMessages > 0 && (
+              <div
+                className="flex items-center bg-primary text-primary-foreground px-2 py-1 rounded-full text-xs font-medium"
+                title={`${unreadMessages} unread message${unreadMessages === 1 ? "" : "s"}`}
+                data-testid="badge-unread-messages"
+              >
+                <MessageCircle className="w-3 h-3 mr-1" />
+                {unreadMessages > 99 ? "99+" : unreadMessages}
+              </div>
+            )}
             <div className="w-8 h-8 bg-primary text-primary-foreground rounded-full flex items-center justify-center" data-testid="user-avatar">
               <span className="text-sm font-medium">{getInitials(user.name || "TI User")}</span>
             </div>
@@ -0,0 +1,245 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { MatchRound, MatchProposalEdit, UnmatchedReason } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Trash2, X } from "lucide-react";
+
+interface RoundMember {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface MatchRoundWithMembers extends MatchRound {
+  members: Record<string, RoundMember>;
+}
+
+interface SwapSelection {
+  pairIndex: number;
+  memberId: string;
+}
+
+interface MatchRoundPreviewProps {
+  roundId: string;
+  onClose: () => void;
+}
+
+const unmatchedReasonLabels: Record<UnmatchedReason, string> = {
+  no_compatible_partner: "No compatible partner",
+  pool_exhausted: "Odd pool",
+  removed_by_admin: "Removed by admin",
+  partnership_ended: "Asked for a rematch",
+};
+
+export default function MatchRoundPreview({ roundId, onClose }: MatchRoundPreviewProps) {
+  const [swapSelection, setSwapSelection] = useState<SwapSelection | null>(null);
+  const { toast } = useToast();
+
+  const { data: round, isLoading } = useQuery<MatchRoundWithMembers>({
+    queryKey: ['/api/admin/match-rounds', roundId],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update match round",
+      variant: "destructive",
+    });
+  };
+
+  const editProposal = useMutation({
+    mutationFn: async (edit: MatchProposalEdit) => {
+      const response = await apiRequest('PUT', `/api/admin/match-rounds/${roundId}/proposal`, edit);
+      return response.json() as Promise<MatchRoundWithMembers>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/admin/match-rounds', roundId], updated);
+      setSwapSelection(null);
+    },
+    onError: (error: any) => {
+      setSwapSelection(null);
+      onError(error);
+    },
+  });
+
+  const commitRound = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/admin/match-rounds/${roundId}/commit`);
+      return response.json() as Promise<MatchRound & { partnershipIds: string[] }>;
+    },
+    onSuccess: (committed) => {
+      toast({
+        title: "Matches Created",
+        description: `${committed.partnershipIds.length} partnerships created. ${committed.proposal.unmatched.length} added to the waitlist.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/match-rounds'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/partnerships'] });
+      onClose();
+    },
+    onError,
+  });
+
+  const cancelRound = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/admin/match-rounds/${roundId}/cancel`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Round Cancelled",
+        description: "The draft round was discarded. No partnerships were created.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/match-rounds'] });
+      onClose();
+    },
+    onError,
+  });
+
+  // Selecting one member from two different pairs swaps them
+  const handleSelectMember = (pairIndex: number, memberId: string) => {
+    if (!swapSelection || swapSelection.pairIndex === pairIndex) {
+      setSwapSelection(swapSelection?.memberId === memberId ? null : { pairIndex, memberId });
+      return;
+    }
+    editProposal.mutate({
+      action: "swap",
+      pairIndexA: swapSelection.pairIndex,
+      memberA: swapSelection.memberId,
+      pairIndexB: pairIndex,
+      memberB: memberId,
+    });
+  };
+
+  const memberName = (memberId: string) => {
+    const member = round?.members[memberId];
+    return member?.name || member?.email || "Unknown User";
+  };
+
+  if (isLoading || !round) {
+    return (
+      <Card data-testid="card-match-round-preview">
+        <CardContent className="py-8 text-center text-muted-foreground">
+          Loading match round...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isDraft = round.status === "draft";
+  const isBusy = editProposal.isPending || commitRound.isPending || cancelRound.isPending;
+
+  return (
+    <Card data-testid="card-match-round-preview">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Match Round Preview</CardTitle>
+          <Button variant="ghost" size="sm" onClick={onClose} data-testid="button-close-round-preview">
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {round.proposal.pairs.length} proposed partnerships from {round.proposal.candidateCount} available members.
+          Strategy: {round.parameters.strategy ?? "scored"}. Lookback: {round.parameters.repeatLookbackRounds} rounds. Odd pool policy: {round.parameters.oddPoolPolicy}.
+          {round.parameters.maxTimezoneOffsetHours !== undefined && round.parameters.maxTimezoneOffsetHours < 12 &&
+            ` Max timezone difference: ${round.parameters.maxTimezoneOffsetHours}h.`}
+        </p>
+        {isDraft && (
+          <p className="text-xs text-muted-foreground">
+            Select a member in one pair, then a member in another pair to swap them.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {round.proposal.pairs.map((pair, pairIndex) => {
+            const memberIds = [pair.user1Id, pair.user2Id, ...(pair.user3Id ? [pair.user3Id] : [])];
+            return (
+              <div key={memberIds.join(":")} className="border rounded-lg p-3" data-testid={`proposed-pair-${pairIndex}`}>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    {memberIds.map((memberId) => (
+                      <Button
+                        key={memberId}
+                        size="sm"
+                        variant={swapSelection?.memberId === memberId ? "default" : "outline"}
+                        disabled={!isDraft || isBusy}
+                        onClick={() => handleSelectMember(pairIndex, memberId)}
+                        data-testid={`button-select-member-${memberId}`}
+                      >
+                        {memberName(memberId)}
+                      </Button>
+                    ))}
+                    {pair.user3Id && <Badge variant="secondary">Triad</Badge>}
+                    {pair.score !== undefined && (
+                      <Badge variant="outline" data-testid={`pair-score-${pairIndex}`}>
+                        Score {Math.round(pair.score * 100)}%
+                      </Badge>
+                    )}
+                  </div>
+                  {isDraft && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isBusy}
+                      onClick={() => editProposal.mutate({ action: "remove", pairIndex })}
+                      data-testid={`button-remove-pair-${pairIndex}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                <ul className="mt-2 text-xs text-muted-foreground list-disc list-inside">
+                  {pair.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+          {round.proposal.pairs.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">No partnerships proposed.</p>
+          )}
+        </div>
+
+        {round.proposal.unmatched.length > 0 && (
+          <div data-testid="list-unmatched-members">
+            <h4 className="font-medium text-sm mb-2">Unmatched (will join the waitlist)</h4>
+            <div className="space-y-1">
+              {round.proposal.unmatched.map((entry) => (
+                <div key={entry.userId} className="flex items-center justify-between text-sm">
+                  <span>{memberName(entry.userId)}</span>
+                  <Badge variant="outline">{unmatchedReasonLabels[entry.reason] ?? entry.reason}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {isDraft && (
+          <div className="flex justify-end gap-2 pt-2">
+            <Button
+              variant="outline"
+              disabled={isBusy}
+              onClick={() => cancelRound.mutate()}
+              data-testid="button-cancel-round"
+            >
+              Discard Draft
+            </Button>
+            <Button
+              disabled={isBusy}
+              onClick={() => commitRound.mutate()}
+              data-testid="button-commit-round"
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              {commitRound.isPending ? "Creating partnerships..." : "Commit Round"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
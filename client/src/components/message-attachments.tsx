@@ -0,0 +1,60 @@
+import { AttachmentSummary } from "@shared/schema";
+import { FileText } from "lucide-react";
+
+interface MessageAttachmentsProps {
+  partnershipId: string;
+  attachments: AttachmentSummary[];
+}
+
+export const attachmentUrl = (partnershipId: string, attachmentId: string, variant: "file" | "thumbnail" = "file") =>
+  `/api/messages/${partnershipId}/attachments/${attachmentId}/${variant}`;
+
+// Admins reviewing a report always get the uploaded file; thumbnails come from the sender's browser
+export const reportAttachmentUrl = (reportId: string, attachmentId: string) =>
+  `/api/admin/reports/${reportId}/attachments/${attachmentId}`;
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Images preview inline and open full size in a new tab; other files are download links
+export default function MessageAttachments({ partnershipId, attachments }: MessageAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {attachments.map((attachment) =>
+        attachment.contentType.startsWith("image/") ? (
+          <a
+            key={attachment.id}
+            href={attachmentUrl(partnershipId, attachment.id)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block"
+            data-testid={`attachment-image-${attachment.id}`}
+          >
+            <img
+              src={attachmentUrl(partnershipId, attachment.id, attachment.hasThumbnail ? "thumbnail" : "file")}
+              alt={attachment.fileName}
+              loading="lazy"
+              className="max-h-48 max-w-full rounded-md object-contain bg-background"
+            />
+          </a>
+        ) : (
+          <a
+            key={attachment.id}
+            href={attachmentUrl(partnershipId, attachment.id)}
+            className="flex items-center space-x-2 rounded-md border border-border bg-background text-foreground px-3 py-2 text-sm hover:bg-muted"
+            data-testid={`attachment-file-${attachment.id}`}
+          >
+            <FileText className="w-4 h-4 flex-shrink-0" />
+            <span className="truncate">{attachment.fileName}</span>
+            <span className="text-xs text-muted-foreground flex-shrink-0">{formatFileSize(attachment.size)}</span>
+          </a>
+        ),
+      )}
+    </div>
+  );
+}
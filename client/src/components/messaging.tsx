@@ -1,49 +1,419 @@
-import { useState, useEffect } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useState, useEffect, useLayoutEffect, useRef } from "react";
+import { useQuery, useMutation, useInfiniteQuery, type InfiniteData } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { User, Partnership } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  User,
+  Partnership,
+  MessageReadCursor,
+  MessageWithSender,
+  AttachmentSummary,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+  MAX_MESSAGE_LENGTH,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_MESSAGE,
+  MAX_THUMBNAIL_BYTES,
+  ATTACHMENT_THUMBNAIL_PX,
+  attachmentContentTypes,
+  getPartnershipMemberIds,
+  type ScreeningAction,
+  type Serialized,
+} from "@shared/schema";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
-import { Send } from "lucide-react";
-
-interface Message {
-  id: string;
-  content: string;
-  senderId: string;
-  createdAt: string;
-  sender: User;
+import { createThumbnail } from "@/lib/thumbnails";
+import MessageAttachments, { formatFileSize } from "@/components/message-attachments";
+import { useRealtime } from "@/hooks/use-realtime";
+import { usePartnerPresence } from "@/hooks/use-partner-presence";
+import PresenceIndicator from "@/components/presence-indicator";
+import { useToast } from "@/hooks/use-toast";
+import { Send, Pencil, Trash2, Paperclip, X } from "lucide-react";
+
+type Message = Serialized<MessageWithSender>;
+
+interface MessagePage {
+  messages: Message[];
+  hasMore: boolean;
+}
+
+// Earlier pages load when the conversation is scrolled within this distance of the top
+const LOAD_EARLIER_THRESHOLD_PX = 40;
+const POLL_INTERVAL_MS = 5000;
+
+// Stored messages always have a creation time; the column type just allows null
+const sentAt = (message: Message) => new Date(message.createdAt ?? 0).getTime();
+
+// Screening rejections come back as "409: {...}" (warn) or "422: {...}" (block) from apiRequest
+const parseScreeningError = (error: unknown): { message: string; screening: ScreeningAction } | null => {
+  const match = error instanceof Error ? /^(?:409|422): ([\s\S]*)$/.exec(error.message) : null;
+  if (!match) return null;
+  try {
+    const body = JSON.parse(match[1]);
+    return body.screening ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+async function fetchMessagePage(partnershipId: string, params: Record<string, string>): Promise<MessagePage> {
+  const search = new URLSearchParams(params).toString();
+  const response = await apiRequest('GET', `/api/messages/${partnershipId}${search ? `?${search}` : ""}`);
+  return response.json();
 }
 
 interface MessagingProps {
   partnership: Partnership;
+  partners: User[];
   currentUser: User;
 }
 
-export default function Messaging({ partnership, currentUser }: MessagingProps) {
+export default function Messaging({ partnership, partners, currentUser }: MessagingProps) {
+  const { toast } = useToast();
   const [newMessage, setNewMessage] = useState("");
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
+  // A screening rule asked the member to confirm; resend runs the same request acknowledging it
+  const [screeningWarning, setScreeningWarning] = useState<{ message: string; resend: () => void } | null>(null);
+  // Uploaded files waiting to go out with the next message
+  const [pendingAttachments, setPendingAttachments] = useState<AttachmentSummary[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isVisible, setIsVisible] = useState(document.visibilityState === "visible");
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const heightBeforePrepend = useRef<number | null>(null);
+  const stickToBottom = useRef(true);
+  const messagesKey = ['/api/messages', partnership.id];
+  const cursorsKey = ['/api/messages', partnership.id, 'read-cursors'];
+
+  // Pages are requested newest first; earlier pages are prepended as the member scrolls up
+  const {
+    data,
+    isLoading,
+    fetchPreviousPage,
+    hasPreviousPage,
+    isFetchingPreviousPage,
+  } = useInfiniteQuery({
+    queryKey: messagesKey,
+    queryFn: ({ pageParam }) => fetchMessagePage(partnership.id, pageParam ? { before: pageParam } : {}),
+    initialPageParam: null as string | null,
+    getNextPageParam: () => undefined,
+    getPreviousPageParam: (firstPage) => (firstPage.hasMore ? firstPage.messages[0]?.id : undefined),
+  });
+  const messages = data?.pages.flatMap((page) => page.messages) ?? [];
+
+  const addMessages = (incoming: Message[]) => {
+    queryClient.setQueryData<InfiniteData<MessagePage, string | null>>(messagesKey, (current) => {
+      if (!current) return current;
+      const known = new Set(current.pages.flatMap((page) => page.messages.map((message) => message.id)));
+      const fresh = incoming.filter((message) => !known.has(message.id));
+      if (fresh.length === 0) return current;
+      const pages = [...current.pages];
+      const last = pages[pages.length - 1];
+      pages[pages.length - 1] = { ...last, messages: [...last.messages, ...fresh] };
+      return { ...current, pages };
+    });
+  };
+
+  const replaceMessage = (updated: Message) => {
+    queryClient.setQueryData<InfiniteData<MessagePage, string | null>>(messagesKey, (current) => {
+      if (!current) return current;
+      const pages = current.pages.map((page) => ({
+        ...page,
+        messages: page.messages.map((message) => (message.id === updated.id ? updated : message)),
+      }));
+      return { ...current, pages };
+    });
+  };
+
+  // Fetch only what arrived after the newest message we have
+  const catchUp = async () => {
+    let after = messages[messages.length - 1]?.id;
+    if (!after) {
+      queryClient.invalidateQueries({ queryKey: messagesKey, exact: true });
+      return;
+    }
+    for (;;) {
+      const page = await fetchMessagePage(partnership.id, { after });
+      addMessages(page.messages);
+      if (!page.hasMore || page.messages.length === 0) return;
+      after = page.messages[page.messages.length - 1].id;
+    }
+  };
+  const catchUpRef = useRef(catchUp);
+  catchUpRef.current = catchUp;
+
+  const { presence, typingUserIds, notifyTyping } = usePartnerPresence(partnership.id);
+  const typingNames = partners
+    .filter((partner) => typingUserIds.includes(partner.id))
+    .map((partner) => partner.name || 'Your partner');
+
+  const { connected } = useRealtime((event) => {
+    if (event.type === "presence" || event.partnershipId !== partnership.id) return;
+    if (event.type === "message") {
+      addMessages([event.message]);
+    } else if (event.type === "message_updated") {
+      replaceMessage(event.message);
+    } else if (event.type === "read") {
+      queryClient.setQueryData<Serialized<MessageReadCursor>[]>(cursorsKey, (current = []) => [
+        ...current.filter((cursor) => cursor.userId !== event.cursor.userId),
+        event.cursor,
+      ]);
+    }
+  });
+
+  // Catch up once the socket connects, and poll for new messages while it is down
+  useEffect(() => {
+    if (isLoading) return;
+    if (connected) {
+      catchUpRef.current().catch(() => undefined);
+      return;
+    }
+    const timer = setInterval(() => catchUpRef.current().catch(() => undefined), POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [connected, isLoading, partnership.id]);
 
-  const { data: messages = [], isLoading } = useQuery<Message[]>({
-    queryKey: ['/api/messages', partnership.id],
-    refetchInterval: 5000, // Poll every 5 seconds for new messages
+  useEffect(() => {
+    const onVisibilityChange = () => setIsVisible(document.visibilityState === "visible");
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", onVisibilityChange);
+  }, []);
+
+  const { data: readCursors = [] } = useQuery<Serialized<MessageReadCursor>[]>({
+    queryKey: cursorsKey,
+    refetchInterval: connected ? false : POLL_INTERVAL_MS,
   });
 
   const sendMessage = useMutation({
-    mutationFn: async (content: string) => {
-      return apiRequest('POST', '/api/messages', {
+    mutationFn: async ({ content, acknowledgeWarnings }: { content: string; acknowledgeWarnings?: boolean }) => {
+      const response = await apiRequest('POST', '/api/messages', {
         partnershipId: partnership.id,
         content,
+        attachmentIds: pendingAttachments.map((attachment) => attachment.id),
+        acknowledgeWarnings,
       });
+      return response.json() as Promise<Message>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
+    onSuccess: (message) => {
+      stickToBottom.current = true;
+      addMessages([message]);
       setNewMessage("");
+      setPendingAttachments([]);
+    },
+    onError: (error: any, { content }) => {
+      const screening = parseScreeningError(error);
+      if (screening?.screening === "warn") {
+        setScreeningWarning({
+          message: screening.message,
+          resend: () => sendMessage.mutate({ content, acknowledgeWarnings: true }),
+        });
+        return;
+      }
+      toast({
+        title: screening ? "Message not sent" : "Error",
+        description: screening?.message || error.message || "Failed to send message",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Images also get a thumbnail, made here so the server never has to decode them
+  const uploadAttachments = useMutation({
+    mutationFn: async (files: File[]) => {
+      const uploaded: AttachmentSummary[] = [];
+      for (const file of files) {
+        if (file.size > MAX_ATTACHMENT_BYTES) {
+          throw new Error(`${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_BYTES)}`);
+        }
+        const response = await apiUpload(
+          'POST',
+          `/api/messages/${partnership.id}/attachments?name=${encodeURIComponent(file.name)}`,
+          file,
+        );
+        let attachment: AttachmentSummary = await response.json();
+        if (attachment.contentType.startsWith("image/")) {
+          const thumbnail = await createThumbnail(file, ATTACHMENT_THUMBNAIL_PX);
+          if (thumbnail && thumbnail.size <= MAX_THUMBNAIL_BYTES) {
+            const thumbnailResponse = await apiUpload(
+              'PUT',
+              `/api/messages/${partnership.id}/attachments/${attachment.id}/thumbnail`,
+              thumbnail,
+            );
+            attachment = await thumbnailResponse.json();
+          }
+        }
+        uploaded.push(attachment);
+      }
+      return uploaded;
+    },
+    onSuccess: (uploaded) => {
+      setPendingAttachments((current) => [...current, ...uploaded]);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload attachment",
+        variant: "destructive",
+      });
     },
   });
 
-  const getInitials = (name: string) => {
+  const removeAttachment = useMutation({
+    mutationFn: async (attachmentId: string) => {
+      await apiRequest('DELETE', `/api/messages/${partnership.id}/attachments/${attachmentId}`);
+      return attachmentId;
+    },
+    onSuccess: (attachmentId) => {
+      setPendingAttachments((current) => current.filter((pending) => pending.id !== attachmentId));
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+    if (pendingAttachments.length + files.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      toast({
+        title: "Too many files",
+        description: `You can attach up to ${MAX_ATTACHMENTS_PER_MESSAGE} files to a message.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    uploadAttachments.mutate(files);
+  };
+
+  const onEditError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update message",
+      variant: "destructive",
+    });
+  };
+
+  const editMessage = useMutation({
+    mutationFn: async ({ id, content, acknowledgeWarnings }: { id: string; content: string; acknowledgeWarnings?: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/messages/${partnership.id}/${id}`, { content, acknowledgeWarnings });
+      return response.json() as Promise<Message>;
+    },
+    onSuccess: (message) => {
+      replaceMessage(message);
+      setEditing(null);
+    },
+    onError: (error: any, { id, content }) => {
+      const screening = parseScreeningError(error);
+      if (screening?.screening === "warn") {
+        setScreeningWarning({
+          message: screening.message,
+          resend: () => editMessage.mutate({ id, content, acknowledgeWarnings: true }),
+        });
+        return;
+      }
+      onEditError(screening ?? error);
+    },
+  });
+
+  const deleteMessage = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/messages/${partnership.id}/${id}`);
+      return response.json() as Promise<Message>;
+    },
+    onSuccess: replaceMessage,
+    onError: onEditError,
+  });
+
+  // Matches the server's window; the server has the final say
+  const canChange = (message: Message) =>
+    message.senderId === currentUser.id &&
+    !message.deletedAt &&
+    Date.now() - sentAt(message) < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+
+  const handleEditMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (editing && editing.content.trim()) {
+      editMessage.mutate({ id: editing.id, content: editing.content.trim() });
+    }
+  };
+
+  const markRead = useMutation({
+    mutationFn: async (messageId: string) => {
+      const response = await apiRequest('POST', `/api/messages/${partnership.id}/read`, { messageId });
+      return response.json() as Promise<{ unreadCount: number }>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: cursorsKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/partnerships/current'] });
+    },
+  });
+
+  const myCursor = readCursors.find((cursor) => cursor.userId === currentUser.id);
+  const latestFromPartner = [...messages].reverse().find((message) => message.senderId !== currentUser.id);
+
+  // Opening the conversation reads everything in it
+  useEffect(() => {
+    if (!isVisible || !latestFromPartner || markRead.isPending) return;
+    const alreadyRead = myCursor && new Date(myCursor.lastReadAt).getTime() >= sentAt(latestFromPartner);
+    if (!alreadyRead) {
+      markRead.mutate(latestFromPartner.id);
+    }
+  }, [isVisible, latestFromPartner?.id, myCursor?.lastReadAt]);
+
+  // The newest of my messages that every partner has read gets the "Seen" marker
+  const partnerCursors = readCursors.filter((cursor) => cursor.userId !== currentUser.id);
+  const partnerCount = getPartnershipMemberIds(partnership).length - 1;
+  const lastSeenMessageId = [...messages].reverse().find((message) =>
+    message.senderId === currentUser.id &&
+    partnerCursors.length === partnerCount &&
+    partnerCursors.every((cursor) => new Date(cursor.lastReadAt).getTime() >= sentAt(message))
+  )?.id;
+
+  // Keep the view anchored: stay on the same messages when older ones are prepended,
+  // and follow new ones when already at the bottom
+  useLayoutEffect(() => {
+    const container = scrollRef.current;
+    if (!container) return;
+    if (heightBeforePrepend.current !== null) {
+      container.scrollTop += container.scrollHeight - heightBeforePrepend.current;
+      heightBeforePrepend.current = null;
+    } else if (stickToBottom.current) {
+      container.scrollTop = container.scrollHeight;
+    }
+  }, [messages.length]);
+
+  const loadEarlier = () => {
+    if (!hasPreviousPage || isFetchingPreviousPage || !scrollRef.current) return;
+    heightBeforePrepend.current = scrollRef.current.scrollHeight;
+    fetchPreviousPage().then((result) => {
+      if (result.isError) heightBeforePrepend.current = null;
+    });
+  };
+
+  const handleScroll = () => {
+    const container = scrollRef.current;
+    if (!container) return;
+    stickToBottom.current = container.scrollHeight - container.scrollTop - container.clientHeight < LOAD_EARLIER_THRESHOLD_PX;
+    if (container.scrollTop < LOAD_EARLIER_THRESHOLD_PX) {
+      loadEarlier();
+    }
+  };
+
+  const getInitials = (name: string | null) => {
     if (!name || typeof name !== 'string') {
       return 'TU';
     }
@@ -57,12 +427,12 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
 
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newMessage.trim()) {
-      sendMessage.mutate(newMessage.trim());
+    if (newMessage.trim() || pendingAttachments.length > 0) {
+      sendMessage.mutate({ content: newMessage.trim() });
     }
   };
 
-  const formatMessageTime = (timestamp: string) => {
+  const formatMessageTime = (timestamp: number) => {
     const date = new Date(timestamp);
     const now = new Date();
     const diffInHours = (now.getTime() - date.getTime()) / (1000 * 60 * 60);
@@ -80,9 +450,27 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
   return (
     <Card className="mt-6" data-testid="card-messaging">
       <CardContent className="p-6">
-        <h3 className="text-lg font-semibold mb-4" data-testid="heading-recent-messages">Recent Messages</h3>
+        <div className="mb-4">
+          <h3 className="text-lg font-semibold" data-testid="heading-recent-messages">Recent Messages</h3>
+          {typingNames.length > 0 ? (
+            <p className="text-sm text-muted-foreground italic" data-testid="text-partner-typing">
+              {typingNames.join(" and ")} {typingNames.length === 1 ? "is" : "are"} typing...
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-x-4">
+              {partners.map((partner) => (
+                <PresenceIndicator key={partner.id} userId={partner.id} presence={presence[partner.id]} />
+              ))}
+            </div>
+          )}
+        </div>
         
-        <ScrollArea className="h-80 w-full pr-4" data-testid="messages-container">
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          className="h-80 w-full pr-4 overflow-y-auto"
+          data-testid="messages-container"
+        >
           {isLoading ? (
             <div className="flex items-center justify-center h-full">
               <div className="text-muted-foreground">Loading messages...</div>
@@ -96,6 +484,19 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
             </div>
           ) : (
             <div className="space-y-4">
+              {hasPreviousPage && (
+                <div className="text-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={loadEarlier}
+                    disabled={isFetchingPreviousPage}
+                    data-testid="button-load-earlier-messages"
+                  >
+                    {isFetchingPreviousPage ? "Loading..." : "Load earlier messages"}
+                  </Button>
+                </div>
+              )}
               {messages.map((message) => (
                 <div
                   key={message.id}
@@ -104,7 +505,7 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
                 >
                   {message.senderId !== currentUser.id && (
                     <div className="w-8 h-8 bg-gradient-to-r from-blue-500 to-purple-500 rounded-full flex items-center justify-center text-white text-sm font-medium flex-shrink-0">
-                      {getInitials(message.sender.name)}
+                      {getInitials(message.sender?.name ?? null)}
                     </div>
                   )}
                   
@@ -114,10 +515,80 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
                         ? 'bg-primary text-primary-foreground' 
                         : 'bg-muted'
                     } rounded-lg p-3`}>
-                      <p className="text-sm" data-testid={`message-content-${message.id}`}>{message.content}</p>
+                      {editing?.id === message.id ? (
+                        <form onSubmit={handleEditMessage} className="space-y-2">
+                          <Input
+                            value={editing.content}
+                            onChange={(e) => setEditing({ id: message.id, content: e.target.value })}
+                            className="text-foreground"
+                            maxLength={MAX_MESSAGE_LENGTH}
+                            disabled={editMessage.isPending}
+                            autoFocus
+                            data-testid={`input-edit-message-${message.id}`}
+                          />
+                          <div className="flex justify-end space-x-2">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditing(null)}
+                              data-testid={`button-cancel-edit-${message.id}`}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              type="submit"
+                              variant="secondary"
+                              size="sm"
+                              disabled={!editing.content.trim() || editMessage.isPending}
+                              data-testid={`button-save-edit-${message.id}`}
+                            >
+                              Save
+                            </Button>
+                          </div>
+                        </form>
+                      ) : message.deletedAt ? (
+                        <p className="text-sm italic opacity-70" data-testid={`message-deleted-${message.id}`}>This message was deleted</p>
+                      ) : (
+                        <>
+                          {message.content && (
+                            <p className="text-sm" data-testid={`message-content-${message.id}`}>{message.content}</p>
+                          )}
+                          <MessageAttachments partnershipId={partnership.id} attachments={message.attachments ?? []} />
+                        </>
+                      )}
                     </div>
                     <p className="text-xs text-muted-foreground mt-1" data-testid={`message-time-${message.id}`}>
-                      {formatMessageTime(message.createdAt)}
+                      {formatMessageTime(sentAt(message))}
+                      {message.editedAt && !message.deletedAt && (
+                        <span className="ml-2" data-testid={`message-edited-${message.id}`}>edited</span>
+                      )}
+                      {canChange(message) && editing?.id !== message.id && (
+                        <>
+                          <button
+                            type="button"
+                            className="ml-2 hover:text-foreground"
+                            onClick={() => setEditing({ id: message.id, content: message.content })}
+                            aria-label="Edit message"
+                            data-testid={`button-edit-message-${message.id}`}
+                          >
+                            <Pencil className="w-3 h-3 inline" />
+                          </button>
+                          <button
+                            type="button"
+                            className="ml-2 hover:text-foreground"
+                            onClick={() => deleteMessage.mutate(message.id)}
+                            disabled={deleteMessage.isPending}
+                            aria-label="Delete message"
+                            data-testid={`button-delete-message-${message.id}`}
+                          >
+                            <Trash2 className="w-3 h-3 inline" />
+                          </button>
+                        </>
+                      )}
+                      {message.id === lastSeenMessageId && (
+                        <span className="ml-2" data-testid={`message-seen-${message.id}`}>Seen</span>
+                      )}
                     </p>
                   </div>
                   
@@ -130,21 +601,67 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
               ))}
             </div>
           )}
-        </ScrollArea>
+        </div>
         
         <div className="mt-4 pt-4 border-t border-border">
+          {pendingAttachments.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-2" data-testid="pending-attachments">
+              {pendingAttachments.map((attachment) => (
+                <div
+                  key={attachment.id}
+                  className="flex items-center space-x-1 rounded-md bg-muted px-2 py-1 text-xs"
+                  data-testid={`pending-attachment-${attachment.id}`}
+                >
+                  <span className="max-w-[10rem] truncate">{attachment.fileName}</span>
+                  <span className="text-muted-foreground">{formatFileSize(attachment.size)}</span>
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment.mutate(attachment.id)}
+                    disabled={removeAttachment.isPending}
+                    aria-label={`Remove ${attachment.fileName}`}
+                    data-testid={`button-remove-attachment-${attachment.id}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
           <form onSubmit={handleSendMessage} className="flex space-x-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept={attachmentContentTypes.join(",")}
+              className="hidden"
+              onChange={handleFilesSelected}
+              data-testid="input-attachment-files"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploadAttachments.isPending || pendingAttachments.length >= MAX_ATTACHMENTS_PER_MESSAGE}
+              aria-label="Attach files"
+              data-testid="button-attach-file"
+            >
+              <Paperclip className="w-4 h-4" />
+            </Button>
             <Input
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                if (e.target.value.trim()) notifyTyping();
+              }}
               placeholder="Type your message..."
               className="flex-1"
+              maxLength={MAX_MESSAGE_LENGTH}
               disabled={sendMessage.isPending}
               data-testid="input-new-message"
             />
             <Button 
               type="submit" 
-              disabled={!newMessage.trim() || sendMessage.isPending}
+              disabled={(!newMessage.trim() && pendingAttachments.length === 0) || sendMessage.isPending || uploadAttachments.isPending}
               data-testid="button-send-message"
             >
               <Send className="w-4 h-4" />
@@ -152,6 +669,26 @@ export default function Messaging({ partnership, currentUser }: MessagingProps)
             </Button>
           </form>
         </div>
+
+        <AlertDialog open={!!screeningWarning} onOpenChange={(open) => !open && setScreeningWarning(null)}>
+          <AlertDialogContent data-testid="dialog-screening-warning">
+            <AlertDialogHeader>
+              <AlertDialogTitle>Send this message?</AlertDialogTitle>
+              <AlertDialogDescription data-testid="text-screening-warning">
+                {screeningWarning?.message}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-screening-cancel">Keep editing</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => screeningWarning?.resend()}
+                data-testid="button-screening-send-anyway"
+              >
+                Send anyway
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </CardContent>
     </Card>
   );
@@ -0,0 +1,95 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Notification, Partnership } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Bell, X } from "lucide-react";
+
+interface NotificationsPanelProps {
+  hasActivePartnership: boolean;
+}
+
+export default function NotificationsPanel({ hasActivePartnership }: NotificationsPanelProps) {
+  const { toast } = useToast();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+  });
+
+  const markRead = useMutation({
+    mutationFn: async (notificationId: string) => {
+      return apiRequest('POST', `/api/notifications/${notificationId}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const requestRematch = useMutation({
+    mutationFn: async (notificationId: string) => {
+      const response = await apiRequest('POST', '/api/rematch');
+      const result = await response.json() as { partnership: Partnership | null; waiting: boolean };
+      await apiRequest('POST', `/api/notifications/${notificationId}/read`);
+      return result;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: result.partnership ? "New Partner Found" : "You're in the Waiting Pool",
+        description: result.partnership
+          ? "We found you a new partner from the waiting pool."
+          : "You'll be matched as soon as someone compatible is available.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/partnerships/current'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/waitlist/me'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to request a new partner",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (notifications.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-3 mb-8" data-testid="notifications-panel">
+      {notifications.map((notification) => (
+        <Card key={notification.id} data-testid={`notification-${notification.id}`}>
+          <CardContent className="p-4 flex items-start gap-3">
+            <Bell className="w-5 h-5 text-primary mt-0.5" />
+            <div className="flex-1">
+              <p className="font-medium">{notification.title}</p>
+              <p className="text-sm text-muted-foreground">{notification.body}</p>
+              {notification.type === "partnership_ended" && !hasActivePartnership && (
+                <Button
+                  size="sm"
+                  className="mt-3"
+                  disabled={requestRematch.isPending}
+                  onClick={() => requestRematch.mutate(notification.id)}
+                  data-testid={`button-rematch-${notification.id}`}
+                >
+                  {requestRematch.isPending ? "Looking..." : "Find Me a New Partner"}
+                </Button>
+              )}
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              disabled={markRead.isPending}
+              onClick={() => markRead.mutate(notification.id)}
+              data-testid={`button-dismiss-notification-${notification.id}`}
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Partnership } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ArrowLeftRight, UserPlus } from "lucide-react";
+
+interface MemberSummary {
+  id: string;
+  name: string | null;
+  email: string | null;
+}
+
+interface PartnershipWithMembers extends Partnership {
+  user1: MemberSummary | null;
+  user2: MemberSummary | null;
+  user3: MemberSummary | null;
+}
+
+interface PartnershipActionsProps {
+  partnerships: PartnershipWithMembers[];
+  reassignTarget: PartnershipWithMembers | null;
+  onReassignClose: () => void;
+}
+
+const memberLabel = (member: MemberSummary | null) => member?.name || member?.email || "Unknown User";
+
+const partnershipLabel = (partnership: PartnershipWithMembers) =>
+  [partnership.user1, partnership.user2, partnership.user3]
+    .filter((member): member is MemberSummary => !!member)
+    .map(memberLabel)
+    .join(" & ");
+
+const partnershipMembers = (partnership: PartnershipWithMembers | undefined) =>
+  partnership
+    ? [partnership.user1, partnership.user2, partnership.user3].filter((member): member is MemberSummary => !!member)
+    : [];
+
+export default function PartnershipActions({ partnerships, reassignTarget, onReassignClose }: PartnershipActionsProps) {
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [showSwapDialog, setShowSwapDialog] = useState(false);
+  const [user1Id, setUser1Id] = useState("");
+  const [user2Id, setUser2Id] = useState("");
+  const [swap, setSwap] = useState({ partnershipIdA: "", memberA: "", partnershipIdB: "", memberB: "" });
+  const { toast } = useToast();
+
+  const activePartnerships = partnerships.filter((partnership) => partnership.status === "active");
+
+  const { data: availableUsers = [] } = useQuery<MemberSummary[]>({
+    queryKey: ['/api/admin/available-users'],
+    enabled: showCreateDialog,
+  });
+
+  const onSuccess = (title: string, description: string) => {
+    toast({ title, description });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/partnerships'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/available-users'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/audit-log'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update partnerships",
+      variant: "destructive",
+    });
+  };
+
+  const createPartnership = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/admin/partnerships', { user1Id, user2Id });
+    },
+    onSuccess: () => {
+      onSuccess("Partnership Created", "The two members have been paired.");
+      setShowCreateDialog(false);
+      setUser1Id("");
+      setUser2Id("");
+    },
+    onError,
+  });
+
+  const swapPartners = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', '/api/admin/partnerships/swap', swap);
+    },
+    onSuccess: () => {
+      onSuccess("Partners Swapped", "Both partnerships were ended and replaced with the swapped pairs.");
+      setShowSwapDialog(false);
+      setSwap({ partnershipIdA: "", memberA: "", partnershipIdB: "", memberB: "" });
+    },
+    onError,
+  });
+
+  const reassignPartnership = useMutation({
+    mutationFn: async (partnershipId: string) => {
+      const response = await apiRequest('POST', `/api/admin/partnerships/${partnershipId}/reassign`);
+      return response.json() as Promise<{ created: Partnership[]; waitlistedUserIds: string[] }>;
+    },
+    onSuccess: (result) => {
+      onSuccess(
+        "Partnership Reassigned",
+        `${result.created.length} new partnership(s) created. ${result.waitlistedUserIds.length} member(s) added to the waitlist.`,
+      );
+      onReassignClose();
+    },
+    onError,
+  });
+
+  return (
+    <>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => setShowCreateDialog(true)} data-testid="button-create-pair">
+          <UserPlus className="h-4 w-4 mr-2" />
+          Create Pair
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowSwapDialog(true)}
+          disabled={activePartnerships.length < 2}
+          data-testid="button-swap-partners"
+        >
+          <ArrowLeftRight className="h-4 w-4 mr-2" />
+          Swap Partners
+        </Button>
+      </div>
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create Pair</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Pair two members who are not in an active partnership. Exclusions are always respected.
+          </p>
+          <div className="space-y-4">
+            {[
+              { id: "pair-member-1", label: "First member", value: user1Id, onChange: setUser1Id },
+              { id: "pair-member-2", label: "Second member", value: user2Id, onChange: setUser2Id },
+            ].map((field) => (
+              <div key={field.id} className="space-y-2">
+                <Label htmlFor={field.id}>{field.label}</Label>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <SelectTrigger id={field.id} data-testid={`select-${field.id}`}>
+                    <SelectValue placeholder="Select a member" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableUsers.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {memberLabel(member)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createPartnership.mutate()}
+              disabled={!user1Id || !user2Id || user1Id === user2Id || createPartnership.isPending}
+              data-testid="button-confirm-create-pair"
+            >
+              {createPartnership.isPending ? "Creating..." : "Create Pair"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={showSwapDialog} onOpenChange={setShowSwapDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Swap Partners</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            The selected members trade places. Both partnerships end and two new ones start today.
+          </p>
+          <div className="space-y-4">
+            {(["A", "B"] as const).map((side) => {
+              const partnershipKey = `partnershipId${side}` as const;
+              const memberKey = `member${side}` as const;
+              const selected = activePartnerships.find((partnership) => partnership.id === swap[partnershipKey]);
+              return (
+                <div key={side} className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label>Partnership {side}</Label>
+                    <Select
+                      value={swap[partnershipKey]}
+                      onValueChange={(value) => setSwap({ ...swap, [partnershipKey]: value, [memberKey]: "" })}
+                    >
+                      <SelectTrigger data-testid={`select-swap-partnership-${side}`}>
+                        <SelectValue placeholder="Select partnership" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {activePartnerships.map((partnership) => (
+                          <SelectItem key={partnership.id} value={partnership.id}>
+                            {partnershipLabel(partnership)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Member to move</Label>
+                    <Select
+                      value={swap[memberKey]}
+                      onValueChange={(value) => setSwap({ ...swap, [memberKey]: value })}
+                      disabled={!selected}
+                    >
+                      <SelectTrigger data-testid={`select-swap-member-${side}`}>
+                        <SelectValue placeholder="Select member" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {partnershipMembers(selected).map((member) => (
+                          <SelectItem key={member.id} value={member.id}>
+                            {memberLabel(member)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={() => setShowSwapDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => swapPartners.mutate()}
+              disabled={
+                !swap.memberA || !swap.memberB || swap.partnershipIdA === swap.partnershipIdB || swapPartners.isPending
+              }
+              data-testid="button-confirm-swap"
+            >
+              {swapPartners.isPending ? "Swapping..." : "Swap"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!reassignTarget} onOpenChange={(open) => !open && onReassignClose()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reassign Partnership</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            End the partnership between {reassignTarget ? partnershipLabel(reassignTarget) : ""} and rematch
+            each member with someone available. Members who can't be rematched go to the front of the waitlist.
+          </p>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onReassignClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => reassignTarget && reassignPartnership.mutate(reassignTarget.id)}
+              disabled={reassignPartnership.isPending}
+              data-testid="button-confirm-reassign"
+            >
+              {reassignPartnership.isPending ? "Reassigning..." : "End and Rematch"}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
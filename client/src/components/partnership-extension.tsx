@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { User, Partnership, PartnershipExtension } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarPlus } from "lucide-react";
+
+interface PartnershipExtensionProps {
+  partnership: Partnership;
+  members: User[];
+  currentUser: User;
+}
+
+const weekOptions = [1, 2, 4, 8];
+
+export default function PartnershipExtensionPanel({ partnership, members, currentUser }: PartnershipExtensionProps) {
+  const [weeks, setWeeks] = useState("4");
+  const { toast } = useToast();
+  const extensionsKey = ['/api/partnerships', partnership.id, 'extensions'];
+
+  const { data: extensions = [] } = useQuery<PartnershipExtension[]>({
+    queryKey: extensionsKey,
+  });
+
+  const onSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: extensionsKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/partnerships/current'] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update extension request",
+      variant: "destructive",
+    });
+  };
+
+  const requestExtension = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/extensions`, { weeks: parseInt(weeks, 10) });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Extension Requested",
+        description: "Your partner has been asked to accept the extension.",
+      });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const respond = useMutation({
+    mutationFn: async ({ extensionId, accept }: { extensionId: string; accept: boolean }) => {
+      const response = await apiRequest('POST', `/api/partnerships/${partnership.id}/extensions/${extensionId}/respond`, { accept });
+      return response.json() as Promise<PartnershipExtension>;
+    },
+    onSuccess: (extension) => {
+      toast({
+        title: extension.status === "accepted" ? "Partnership Extended" : extension.status === "declined" ? "Extension Declined" : "Response Saved",
+        description: extension.status === "pending" ? "Waiting for the rest of your group to respond." : undefined,
+      });
+      onSuccess();
+    },
+    onError,
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (extensionId: string) => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/extensions/${extensionId}/cancel`);
+    },
+    onSuccess,
+    onError,
+  });
+
+  const memberName = (userId: string | null) => {
+    if (userId === currentUser.id) return "You";
+    return members.find((member) => member.id === userId)?.name || "Your partner";
+  };
+
+  const pending = extensions.find((extension) => extension.status === "pending");
+  const lastSettled = extensions.find((extension) => extension.status !== "pending");
+  const isBusy = requestExtension.isPending || respond.isPending || cancel.isPending;
+
+  return (
+    <div className="border rounded-lg p-4 mb-6 space-y-3" data-testid="section-partnership-extension">
+      <div className="flex items-center">
+        <CalendarPlus className="w-4 h-4 mr-2" />
+        <h3 className="font-semibold">Keep going?</h3>
+      </div>
+
+      {pending ? (
+        <div className="space-y-2" data-testid="extension-pending">
+          <p className="text-sm">
+            {memberName(pending.requestedBy)} asked to extend this partnership by {pending.weeks} week(s).
+          </p>
+          {pending.requestedBy === currentUser.id ? (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Waiting for a response.</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={isBusy}
+                onClick={() => cancel.mutate(pending.id)}
+                data-testid="button-cancel-extension"
+              >
+                Cancel Request
+              </Button>
+            </div>
+          ) : pending.acceptedBy.includes(currentUser.id) ? (
+            <p className="text-sm text-muted-foreground">You accepted. Waiting for the rest of your group.</p>
+          ) : (
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                disabled={isBusy}
+                onClick={() => respond.mutate({ extensionId: pending.id, accept: true })}
+                data-testid="button-accept-extension"
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={isBusy}
+                onClick={() => respond.mutate({ extensionId: pending.id, accept: false })}
+                data-testid="button-decline-extension"
+              >
+                Decline
+              </Button>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-muted-foreground">Extend this partnership by</span>
+          <Select value={weeks} onValueChange={setWeeks}>
+            <SelectTrigger className="w-32" data-testid="select-extension-weeks">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {weekOptions.map((option) => (
+                <SelectItem key={option} value={option.toString()}>
+                  {option} week{option > 1 ? "s" : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isBusy}
+            onClick={() => requestExtension.mutate()}
+            data-testid="button-request-extension"
+          >
+            Propose Extension
+          </Button>
+        </div>
+      )}
+
+      {lastSettled && !pending && (
+        <p className="text-xs text-muted-foreground" data-testid="text-last-extension">
+          Last request: {memberName(lastSettled.requestedBy)} asked for {lastSettled.weeks} week(s) - {lastSettled.status}.
+        </p>
+      )}
+    </div>
+  );
+}
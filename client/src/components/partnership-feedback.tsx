@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Partnership } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Star } from "lucide-react";
+
+interface PendingFeedback {
+  partnership: Partnership;
+  partners: { id: string; name: string | null }[];
+}
+
+// Asks about one ended partnership at a time until the member has answered them all
+export default function PartnershipFeedback() {
+  const [rating, setRating] = useState(0);
+  const [wouldMatchAgain, setWouldMatchAgain] = useState<string>("");
+  const [comments, setComments] = useState("");
+  const { toast } = useToast();
+
+  const { data: pending = [] } = useQuery<PendingFeedback[]>({
+    queryKey: ['/api/feedback/pending'],
+  });
+
+  const submitFeedback = useMutation({
+    mutationFn: async (partnershipId: string) => {
+      return apiRequest('POST', `/api/partnerships/${partnershipId}/feedback`, {
+        rating,
+        wouldMatchAgain: wouldMatchAgain === "yes",
+        comments: comments || undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Thanks for Your Feedback",
+        description: "We'll use it to make better matches in future rounds.",
+      });
+      setRating(0);
+      setWouldMatchAgain("");
+      setComments("");
+      queryClient.invalidateQueries({ queryKey: ['/api/feedback/pending'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save feedback",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = pending[0];
+  if (!current) {
+    return null;
+  }
+
+  const partnerNames = current.partners.map((partner) => partner.name || "TI User").join(" and ");
+
+  return (
+    <Card className="mb-8" data-testid="card-partnership-feedback">
+      <CardContent className="p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold">How did your partnership with {partnerNames} go?</h3>
+          <p className="text-sm text-muted-foreground">
+            Your partnership ended on{" "}
+            {new Date(current.partnership.endDate).toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}.
+            Your answers are private and only shared with admins.
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label>Overall rating</Label>
+          <div className="flex gap-1">
+            {[1, 2, 3, 4, 5].map((value) => (
+              <Button
+                key={value}
+                type="button"
+                size="sm"
+                variant={rating >= value ? "default" : "outline"}
+                onClick={() => setRating(value)}
+                aria-label={`Rate ${value} out of 5`}
+                data-testid={`button-feedback-rating-${value}`}
+              >
+                <Star className="w-4 h-4" />
+              </Button>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label>Would you like to be matched with {partnerNames} again?</Label>
+          <RadioGroup value={wouldMatchAgain} onValueChange={setWouldMatchAgain} className="flex gap-6">
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="yes" id="feedback-again-yes" data-testid="radio-feedback-again-yes" />
+              <Label htmlFor="feedback-again-yes" className="font-normal">Yes</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="no" id="feedback-again-no" data-testid="radio-feedback-again-no" />
+              <Label htmlFor="feedback-again-no" className="font-normal">No</Label>
+            </div>
+          </RadioGroup>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="feedback-comments">Anything else? (optional)</Label>
+          <Textarea
+            id="feedback-comments"
+            value={comments}
+            onChange={(e) => setComments(e.target.value)}
+            maxLength={1000}
+            data-testid="input-feedback-comments"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => submitFeedback.mutate(current.partnership.id)}
+            disabled={!rating || !wouldMatchAgain || submitFeedback.isPending}
+            data-testid="button-submit-feedback"
+          >
+            {submitFeedback.isPending ? "Submitting..." : "Submit Feedback"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
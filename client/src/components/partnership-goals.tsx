@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { User, Partnership, Goal, GoalUpdate, GoalChange } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Slider } from "@/components/ui/slider";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, History, Plus, RotateCcw, Target } from "lucide-react";
+
+interface GoalWithUpdates extends Goal {
+  updates: GoalUpdate[];
+}
+
+interface PartnershipGoalsProps {
+  partnership: Partnership;
+  members: User[];
+  currentUser: User;
+}
+
+const actionLabels: Record<string, string> = {
+  created: "added this goal",
+  progress: "updated progress",
+  completed: "completed this goal",
+  reopened: "reopened this goal",
+};
+
+export default function PartnershipGoals({ partnership, members, currentUser }: PartnershipGoalsProps) {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const { toast } = useToast();
+  const goalsKey = ['/api/partnerships', partnership.id, 'goals'];
+
+  const { data: goals = [], isLoading } = useQuery<GoalWithUpdates[]>({
+    queryKey: goalsKey,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save goal",
+      variant: "destructive",
+    });
+  };
+
+  const createGoal = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/goals`, {
+        title,
+        description: description || undefined,
+      });
+    },
+    onSuccess: () => {
+      setTitle("");
+      setDescription("");
+      queryClient.invalidateQueries({ queryKey: goalsKey });
+    },
+    onError,
+  });
+
+  const updateGoal = useMutation({
+    mutationFn: async ({ goalId, change }: { goalId: string; change: GoalChange }) => {
+      return apiRequest('PATCH', `/api/partnerships/${partnership.id}/goals/${goalId}`, change);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: goalsKey });
+    },
+    onError,
+  });
+
+  const memberName = (userId: string) => {
+    if (userId === currentUser.id) return "You";
+    return members.find((member) => member.id === userId)?.name || "Your partner";
+  };
+
+  return (
+    <Card data-testid="card-partnership-goals">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Target className="w-5 h-5 mr-2" />
+          Shared Goals
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Goals you and your partner are holding each other to this month.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={200}
+            placeholder="Add a goal, e.g. Walk 3 times a week"
+            data-testid="input-goal-title"
+          />
+          {title && (
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              maxLength={1000}
+              placeholder="Details (optional)"
+              data-testid="input-goal-description"
+            />
+          )}
+          <Button
+            size="sm"
+            onClick={() => createGoal.mutate()}
+            disabled={!title.trim() || createGoal.isPending}
+            data-testid="button-add-goal"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {createGoal.isPending ? "Adding..." : "Add Goal"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading goals...</p>
+        ) : goals.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No goals yet. Add the first one together.</p>
+        ) : (
+          <div className="space-y-3">
+            {goals.map((goal) => (
+              <GoalItem
+                key={goal.id}
+                goal={goal}
+                memberName={memberName}
+                isSaving={updateGoal.isPending}
+                onChange={(change) => updateGoal.mutate({ goalId: goal.id, change })}
+              />
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface GoalItemProps {
+  goal: GoalWithUpdates;
+  memberName: (userId: string) => string;
+  isSaving: boolean;
+  onChange: (change: GoalChange) => void;
+}
+
+function GoalItem({ goal, memberName, isSaving, onChange }: GoalItemProps) {
+  const [progress, setProgress] = useState(goal.progress);
+  const [note, setNote] = useState("");
+  const [showHistory, setShowHistory] = useState(false);
+  const isCompleted = goal.status === "completed";
+
+  const submit = (change: GoalChange) => {
+    onChange({ ...change, note: note || undefined });
+    setNote("");
+  };
+
+  return (
+    <div className="border rounded-lg p-3 space-y-3" data-testid={`goal-${goal.id}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <p className={`font-medium ${isCompleted ? "line-through text-muted-foreground" : ""}`}>{goal.title}</p>
+          {goal.description && <p className="text-sm text-muted-foreground">{goal.description}</p>}
+        </div>
+        <Badge variant={isCompleted ? "default" : "secondary"}>
+          {isCompleted ? "Completed" : `${goal.progress}%`}
+        </Badge>
+      </div>
+      <Progress value={goal.progress} className="h-2" />
+
+      {!isCompleted && (
+        <div className="space-y-2">
+          <Slider
+            value={[progress]}
+            onValueChange={([value]) => setProgress(value)}
+            max={100}
+            step={5}
+            data-testid={`slider-goal-progress-${goal.id}`}
+          />
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            placeholder="Add a note (optional)"
+            data-testid={`input-goal-note-${goal.id}`}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {isCompleted ? (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={isSaving}
+            onClick={() => submit({ status: "open" })}
+            data-testid={`button-reopen-goal-${goal.id}`}
+          >
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Reopen
+          </Button>
+        ) : (
+          <>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={isSaving || progress === goal.progress}
+              onClick={() => submit({ progress })}
+              data-testid={`button-save-goal-progress-${goal.id}`}
+            >
+              Save Progress
+            </Button>
+            <Button
+              size="sm"
+              disabled={isSaving}
+              onClick={() => submit({ status: "completed" })}
+              data-testid={`button-complete-goal-${goal.id}`}
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              Complete
+            </Button>
+          </>
+        )}
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setShowHistory(!showHistory)}
+          data-testid={`button-goal-history-${goal.id}`}
+        >
+          <History className="w-4 h-4 mr-2" />
+          {showHistory ? "Hide History" : "History"}
+        </Button>
+      </div>
+
+      {showHistory && (
+        <ul className="text-xs text-muted-foreground space-y-1" data-testid={`list-goal-history-${goal.id}`}>
+          {goal.updates.map((update) => (
+            <li key={update.id}>
+              {new Date(update.createdAt!).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}:{" "}
+              {memberName(update.userId)} {actionLabels[update.action] ?? update.action}
+              {update.action === "progress" && ` to ${update.progress}%`}
+              {update.note && ` - "${update.note}"`}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
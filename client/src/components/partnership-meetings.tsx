@@ -0,0 +1,359 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { User, Partnership, Meeting } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, Copy, Link, Plus, Repeat } from "lucide-react";
+
+interface PartnershipMeetingsProps {
+  partnership: Partnership;
+  members: User[];
+  currentUser: User;
+}
+
+const durationOptions = [15, 30, 45, 60, 90];
+
+const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function isValidTimezone(timezone: string | null): timezone is string {
+  if (!timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatInTimezone(date: Date | string, timezone: string | null): string {
+  return new Date(date).toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    timeZone: isValidTimezone(timezone) ? timezone : browserTimezone,
+  });
+}
+
+// Minutes `timezone` is ahead of UTC at the given instant
+function utcOffsetMinutes(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find((entry) => entry.type === type)?.value);
+  const wallClock = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+  return Math.round((wallClock - at.getTime()) / 60000);
+}
+
+// The instant a date and time picked on the form fall on in `timezone`; the second pass settles DST edges
+function zonedTimeToUtc(date: string, time: string, timezone: string): Date {
+  const wallClock = new Date(`${date}T${time}:00Z`).getTime();
+  const firstGuess = wallClock - utcOffsetMinutes(new Date(wallClock), timezone) * 60000;
+  return new Date(wallClock - utcOffsetMinutes(new Date(firstGuess), timezone) * 60000);
+}
+
+const statusLabels: Record<Meeting["status"], string> = {
+  proposed: "Proposed",
+  accepted: "Confirmed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+};
+
+export default function PartnershipMeetings({ partnership, members, currentUser }: PartnershipMeetingsProps) {
+  const timezone = isValidTimezone(currentUser.timezone) ? currentUser.timezone : browserTimezone;
+  const [title, setTitle] = useState("Weekly check-in");
+  const [date, setDate] = useState("");
+  const [time, setTime] = useState("18:00");
+  const [duration, setDuration] = useState("30");
+  const [weekly, setWeekly] = useState(true);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const { toast } = useToast();
+  const meetingsKey = ['/api/partnerships', partnership.id, 'meetings'];
+
+  const { data: meetings = [], isLoading } = useQuery<Meeting[]>({
+    queryKey: meetingsKey,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update meeting",
+      variant: "destructive",
+    });
+  };
+
+  const proposeMeeting = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/meetings`, {
+        title,
+        startsAt: zonedTimeToUtc(date, time, timezone).toISOString(),
+        durationMinutes: parseInt(duration, 10),
+        recurrence: weekly ? "weekly" : "none",
+        timezone,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Meeting Proposed",
+        description: "Your partner has been asked to confirm the time.",
+      });
+      setDate("");
+      queryClient.invalidateQueries({ queryKey: meetingsKey });
+    },
+    onError,
+  });
+
+  const respond = useMutation({
+    mutationFn: async ({ meetingId, accept }: { meetingId: string; accept: boolean }) => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/meetings/${meetingId}/respond`, { accept });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: meetingsKey });
+    },
+    onError,
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (meetingId: string) => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/meetings/${meetingId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: meetingsKey });
+    },
+    onError,
+  });
+
+  const loadFeed = useMutation({
+    mutationFn: async (reset: boolean) => {
+      const response = reset
+        ? await apiRequest('POST', '/api/calendar/feed/reset')
+        : await apiRequest('GET', '/api/calendar/feed');
+      return (await response.json()) as { url: string };
+    },
+    onSuccess: ({ url }, reset) => {
+      setFeedUrl(url);
+      if (reset) {
+        toast({
+          title: "Calendar Link Reset",
+          description: "Calendars subscribed with the old link will stop updating.",
+        });
+      }
+    },
+    onError,
+  });
+
+  const copyFeedUrl = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast({
+        title: "Copied",
+        description: "Add it to your calendar app as a subscription.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to copy to clipboard.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const memberName = (userId: string) => {
+    if (userId === currentUser.id) return "You";
+    return members.find((member) => member.id === userId)?.name || "Your partner";
+  };
+
+  const others = members.filter((member) => member.id !== currentUser.id);
+  const visibleMeetings = meetings.filter((meeting) => meeting.status === "proposed" || meeting.status === "accepted");
+  const isBusy = respond.isPending || cancel.isPending;
+
+  return (
+    <Card data-testid="card-partnership-meetings">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="w-5 h-5 mr-2" />
+          Meetings
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Times are shown in your timezone ({timezone}) and in your partner's.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="border rounded-lg p-3 space-y-3">
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={200}
+            placeholder="Meeting title"
+            data-testid="input-meeting-title"
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              data-testid="input-meeting-date"
+            />
+            <Input
+              type="time"
+              value={time}
+              onChange={(e) => setTime(e.target.value)}
+              data-testid="input-meeting-time"
+            />
+            <Select value={duration} onValueChange={setDuration}>
+              <SelectTrigger data-testid="select-meeting-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {durationOptions.map((option) => (
+                  <SelectItem key={option} value={option.toString()}>
+                    {option} minutes
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <Switch id="meeting-weekly" checked={weekly} onCheckedChange={setWeekly} data-testid="switch-meeting-weekly" />
+              <Label htmlFor="meeting-weekly">Repeat weekly until the partnership ends</Label>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => proposeMeeting.mutate()}
+              disabled={!title.trim() || !date || !time || proposeMeeting.isPending}
+              data-testid="button-propose-meeting"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {proposeMeeting.isPending ? "Proposing..." : "Propose"}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading meetings...</p>
+        ) : visibleMeetings.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">No meetings scheduled yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {visibleMeetings.map((meeting) => {
+              const isProposer = meeting.proposedBy === currentUser.id;
+              const hasAccepted = meeting.acceptedBy.includes(currentUser.id);
+              return (
+                <div key={meeting.id} className="border rounded-lg p-3 space-y-2" data-testid={`meeting-${meeting.id}`}>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="font-medium flex items-center">
+                        {meeting.title}
+                        {meeting.recurrence === "weekly" && <Repeat className="w-4 h-4 ml-2 text-muted-foreground" />}
+                      </p>
+                      <p className="text-sm">{formatInTimezone(meeting.startsAt, timezone)}</p>
+                      {others.map((member) => (
+                        <p key={member.id} className="text-xs text-muted-foreground">
+                          {member.name || "Your partner"}: {formatInTimezone(meeting.startsAt, member.timezone)}
+                        </p>
+                      ))}
+                      <p className="text-xs text-muted-foreground">
+                        {meeting.durationMinutes} minutes, proposed by {memberName(meeting.proposedBy)}
+                      </p>
+                    </div>
+                    <Badge variant={meeting.status === "accepted" ? "default" : "secondary"}>
+                      {statusLabels[meeting.status]}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {meeting.status === "proposed" && !isProposer && !hasAccepted && (
+                      <>
+                        <Button
+                          size="sm"
+                          disabled={isBusy}
+                          onClick={() => respond.mutate({ meetingId: meeting.id, accept: true })}
+                          data-testid={`button-accept-meeting-${meeting.id}`}
+                        >
+                          Accept
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isBusy}
+                          onClick={() => respond.mutate({ meetingId: meeting.id, accept: false })}
+                          data-testid={`button-decline-meeting-${meeting.id}`}
+                        >
+                          Decline
+                        </Button>
+                      </>
+                    )}
+                    {meeting.status === "proposed" && hasAccepted && (
+                      <span className="text-sm text-muted-foreground">You accepted. Waiting for the rest of your group.</span>
+                    )}
+                    {(meeting.status === "accepted" || isProposer) && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={isBusy}
+                        onClick={() => cancel.mutate(meeting.id)}
+                        data-testid={`button-cancel-meeting-${meeting.id}`}
+                      >
+                        {meeting.status === "accepted" ? "Cancel Meeting" : "Withdraw"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="border-t pt-4 space-y-2" data-testid="section-calendar-feed">
+          <p className="text-sm text-muted-foreground">
+            Subscribe to your confirmed meetings from Google Calendar, Apple Calendar or Outlook. Keep the link private.
+          </p>
+          {feedUrl ? (
+            <div className="flex gap-2">
+              <Input value={feedUrl} readOnly data-testid="input-calendar-feed-url" />
+              <Button size="sm" variant="outline" onClick={copyFeedUrl} data-testid="button-copy-calendar-feed">
+                <Copy className="w-4 h-4" />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={loadFeed.isPending}
+                onClick={() => loadFeed.mutate(true)}
+                data-testid="button-reset-calendar-feed"
+              >
+                Reset
+              </Button>
+            </div>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={loadFeed.isPending}
+              onClick={() => loadFeed.mutate(false)}
+              data-testid="button-show-calendar-feed"
+            >
+              <Link className="w-4 h-4 mr-2" />
+              Get Calendar Link
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
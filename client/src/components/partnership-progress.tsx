@@ -0,0 +1,185 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { User, Partnership, CheckIn, InsertCheckIn, getPartnershipWeek } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Star } from "lucide-react";
+
+interface PartnershipProgressProps {
+  partnership: Partnership;
+  members: User[];
+  currentUser: User;
+}
+
+const outcomeLabels: Record<CheckIn["outcome"], string> = {
+  great: "Great",
+  good: "Good",
+  mixed: "Mixed",
+  difficult: "Difficult",
+};
+
+export default function PartnershipProgress({ partnership, members, currentUser }: PartnershipProgressProps) {
+  const { week } = getPartnershipWeek(partnership);
+  const [form, setForm] = useState<InsertCheckIn>({ met: true, outcome: "good", rating: 3, notes: "" });
+  const { toast } = useToast();
+
+  const { data: checkIns = [], isLoading } = useQuery<CheckIn[]>({
+    queryKey: ['/api/partnerships', partnership.id, 'check-ins'],
+  });
+
+  const submitCheckIn = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/partnerships/${partnership.id}/check-ins`, form);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Check-in Saved",
+        description: `Your check-in for week ${week} has been recorded.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/partnerships', partnership.id, 'check-ins'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save check-in",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const myCheckIn = checkIns.find((checkIn) => checkIn.userId === currentUser.id && checkIn.weekNumber === week);
+
+  // Start from the saved answers when updating this week's check-in
+  useEffect(() => {
+    if (myCheckIn) {
+      setForm({ met: myCheckIn.met, outcome: myCheckIn.outcome, rating: myCheckIn.rating, notes: myCheckIn.notes ?? "" });
+    }
+  }, [myCheckIn?.id, myCheckIn?.updatedAt]);
+
+  const weeks = Array.from({ length: week }, (_, index) => week - index);
+
+  return (
+    <div className="space-y-6" data-testid="section-partnership-progress">
+      <div className="border rounded-lg p-4 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold">Week {week} check-in</h3>
+          {myCheckIn && <Badge variant="secondary">Submitted - you can update it</Badge>}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Switch
+            id="check-in-met"
+            checked={form.met}
+            onCheckedChange={(met) => setForm({ ...form, met })}
+            data-testid="switch-check-in-met"
+          />
+          <Label htmlFor="check-in-met">We met or talked this week</Label>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>How did it go?</Label>
+            <Select
+              value={form.outcome}
+              onValueChange={(outcome) => setForm({ ...form, outcome: outcome as InsertCheckIn["outcome"] })}
+            >
+              <SelectTrigger data-testid="select-check-in-outcome">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(outcomeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Rating</Label>
+            <div className="flex gap-1">
+              {[1, 2, 3, 4, 5].map((rating) => (
+                <Button
+                  key={rating}
+                  type="button"
+                  size="sm"
+                  variant={form.rating >= rating ? "default" : "outline"}
+                  onClick={() => setForm({ ...form, rating })}
+                  aria-label={`Rate ${rating} out of 5`}
+                  data-testid={`button-check-in-rating-${rating}`}
+                >
+                  <Star className="w-4 h-4" />
+                </Button>
+              ))}
+            </div>
+          </div>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="check-in-notes">Notes</Label>
+          <Textarea
+            id="check-in-notes"
+            value={form.notes}
+            onChange={(e) => setForm({ ...form, notes: e.target.value })}
+            maxLength={1000}
+            placeholder="What did you work on? Anything to follow up next week?"
+            data-testid="input-check-in-notes"
+          />
+        </div>
+        <div className="flex justify-end">
+          <Button
+            onClick={() => submitCheckIn.mutate()}
+            disabled={submitCheckIn.isPending}
+            data-testid="button-submit-check-in"
+          >
+            {submitCheckIn.isPending ? "Saving..." : myCheckIn ? "Update Check-in" : "Submit Check-in"}
+          </Button>
+        </div>
+      </div>
+
+      <div data-testid="list-check-in-history">
+        <h3 className="font-semibold mb-3">This month's check-ins</h3>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading check-ins...</p>
+        ) : (
+          <div className="space-y-4">
+            {weeks.map((weekNumber) => (
+              <div key={weekNumber} className="border rounded-lg p-3" data-testid={`check-in-week-${weekNumber}`}>
+                <p className="text-sm font-medium mb-2">Week {weekNumber}</p>
+                <div className="space-y-2">
+                  {members.map((member) => {
+                    const checkIn = checkIns.find(
+                      (entry) => entry.userId === member.id && entry.weekNumber === weekNumber,
+                    );
+                    return (
+                      <div key={member.id} className="text-sm">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-medium">{member.id === currentUser.id ? "You" : member.name || "TI User"}</span>
+                          {checkIn ? (
+                            <>
+                              <Badge variant={checkIn.met ? "default" : "outline"}>
+                                {checkIn.met ? "Met" : "Didn't meet"}
+                              </Badge>
+                              <Badge variant="secondary">{outcomeLabels[checkIn.outcome]}</Badge>
+                              <span className="text-muted-foreground">{checkIn.rating}/5</span>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">No check-in</span>
+                          )}
+                        </div>
+                        {checkIn?.notes && <p className="text-muted-foreground mt-1">{checkIn.notes}</p>}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
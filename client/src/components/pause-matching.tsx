@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { User, isMatchingPaused } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PauseCircle, PlayCircle } from "lucide-react";
+
+interface PauseMatchingProps {
+  user: User;
+}
+
+export default function PauseMatching({ user }: PauseMatchingProps) {
+  const [pauseMonths, setPauseMonths] = useState("1");
+  const { toast } = useToast();
+  const isPaused = isMatchingPaused(user);
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update matching status",
+      variant: "destructive",
+    });
+  };
+
+  const pauseMatching = useMutation({
+    mutationFn: async (months: number) => {
+      const resumeAt = new Date();
+      resumeAt.setMonth(resumeAt.getMonth() + months);
+      return apiRequest('POST', '/api/users/me/pause', { resumeAt: resumeAt.toISOString() });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Matching Paused",
+        description: "You won't be included in match rounds until your resume date.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+    onError,
+  });
+
+  const resumeMatching = useMutation({
+    mutationFn: async () => {
+      return apiRequest('DELETE', '/api/users/me/pause');
+    },
+    onSuccess: () => {
+      toast({
+        title: "Matching Resumed",
+        description: "You'll be included in the next match round.",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/user'] });
+    },
+    onError,
+  });
+
+  return (
+    <Card data-testid="card-pause-matching">
+      <CardContent className="p-6">
+        <h3 className="text-lg font-semibold mb-4">Matching</h3>
+        {isPaused ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground" data-testid="text-paused-until">
+              Matching is paused until{" "}
+              {new Date(user.pausedUntil!).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}.
+              It resumes automatically after that.
+            </p>
+            <Button
+              variant="outline"
+              className="w-full justify-center"
+              disabled={resumeMatching.isPending}
+              onClick={() => resumeMatching.mutate()}
+              data-testid="button-resume-matching"
+            >
+              <PlayCircle className="w-4 h-4 mr-2" />
+              {resumeMatching.isPending ? "Resuming..." : "Resume Matching Now"}
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Going away? Skip upcoming rounds and resume automatically.
+            </p>
+            <Select value={pauseMonths} onValueChange={setPauseMonths}>
+              <SelectTrigger data-testid="select-pause-length">
+                <SelectValue placeholder="Select how long to pause" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Skip the next round (1 month)</SelectItem>
+                <SelectItem value="2">2 months</SelectItem>
+                <SelectItem value="3">3 months</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              className="w-full justify-center"
+              disabled={pauseMatching.isPending}
+              onClick={() => pauseMatching.mutate(parseInt(pauseMonths, 10))}
+              data-testid="button-pause-matching"
+            >
+              <PauseCircle className="w-4 h-4 mr-2" />
+              {pauseMatching.isPending ? "Pausing..." : "Pause Matching"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,34 @@
+import { formatDistanceToNow } from "date-fns";
+import { PartnerPresence, Serialized } from "@shared/schema";
+
+interface PresenceIndicatorProps {
+  presence: Serialized<PartnerPresence> | undefined;
+  userId: string;
+}
+
+const dotColors = {
+  online: "bg-green-500",
+  idle: "bg-yellow-500",
+  offline: "bg-gray-400",
+};
+
+export function describePresence(presence: NonNullable<Serialized<PartnerPresence>>): string {
+  if (presence.status === "online") return "Online";
+  const lastSeen = presence.lastSeenAt
+    ? `last seen ${formatDistanceToNow(new Date(presence.lastSeenAt), { addSuffix: true })}`
+    : null;
+  if (presence.status === "idle") return lastSeen ? `Idle, ${lastSeen}` : "Idle";
+  return lastSeen ? lastSeen.charAt(0).toUpperCase() + lastSeen.slice(1) : "Offline";
+}
+
+// Nothing is shown for partners who hide their presence
+export default function PresenceIndicator({ presence, userId }: PresenceIndicatorProps) {
+  if (!presence) return null;
+
+  return (
+    <span className="inline-flex items-center text-sm text-muted-foreground" data-testid={`presence-${userId}`}>
+      <span className={`w-2 h-2 rounded-full mr-2 ${dotColors[presence.status]}`} />
+      {describePresence(presence)}
+    </span>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Calendar, Shield, UserX, AlertTriangle, Settings } from "lucide-react";
 import { Link } from "wouter";
+import PauseMatching from "@/components/pause-matching";
 
 interface ProfileSidebarProps {
   user: User;
@@ -75,6 +76,8 @@ export default function ProfileSidebar({
         </CardContent>
       </Card>
 
+      <PauseMatching user={user} />
+
       {/* Safety Tools */}
       <Card data-testid="card-safety-tools">
         <CardContent className="p-6">
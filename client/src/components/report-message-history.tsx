@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AttachmentSummary, MessageWithRevisions } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { reportAttachmentUrl } from "@/components/message-attachments";
+import { History } from "lucide-react";
+
+interface ReportMessageHistoryProps {
+  reportId: string;
+}
+
+// Opens the uploaded file in a new tab; each one opened is recorded in the audit log
+export function ReportAttachmentLinks({ reportId, attachments }: { reportId: string; attachments: AttachmentSummary[] }) {
+  if (attachments.length === 0) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      Attachments:{" "}
+      {attachments.map((attachment, index) => (
+        <span key={attachment.id}>
+          {index > 0 && ", "}
+          <a
+            href={reportAttachmentUrl(reportId, attachment.id)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline"
+            data-testid={`link-report-attachment-${attachment.id}`}
+          >
+            {attachment.fileName}
+          </a>
+        </span>
+      ))}
+    </p>
+  );
+}
+
+const formatTimestamp = (timestamp: string | Date | null) =>
+  timestamp ? new Date(timestamp).toLocaleString() : "Unknown time";
+
+// Edited and deleted messages in the reported partnership with everything they said before.
+// Each time it is loaded the server writes an audit log entry.
+export default function ReportMessageHistory({ reportId }: ReportMessageHistoryProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: messages = [], isLoading, error } = useQuery<MessageWithRevisions[]>({
+    queryKey: ['/api/admin/reports', reportId, 'message-revisions'],
+    enabled: open,
+  });
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        data-testid={`button-message-history-${reportId}`}
+      >
+        <History className="w-3 h-3 mr-1" />
+        Message History
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edited and Deleted Messages</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Earlier versions of messages the members changed or removed. Your access is recorded in the audit log.
+          </p>
+          {isLoading ? (
+            <div className="text-muted-foreground text-sm">Loading message history...</div>
+          ) : error ? (
+            <div className="text-destructive text-sm" data-testid={`message-history-error-${reportId}`}>
+              {(error as Error).message || "Failed to load message history"}
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="text-muted-foreground text-sm" data-testid={`message-history-empty-${reportId}`}>
+              No messages in this partnership were edited or deleted.
+            </div>
+          ) : (
+            <ScrollArea className="h-96 pr-4">
+              <div className="space-y-4">
+                {messages.map((message) => (
+                  <div key={message.id} className="border rounded-lg p-3 space-y-2" data-testid={`revised-message-${message.id}`}>
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{message.sender?.name || "Unknown User"} · sent {formatTimestamp(message.createdAt)}</span>
+                      <Badge variant="outline">{message.deletedAt ? "Deleted" : "Edited"}</Badge>
+                    </div>
+                    {message.revisions.map((revision) => (
+                      <div key={revision.id} className="text-sm" data-testid={`message-revision-${revision.id}`}>
+                        <p className="text-xs text-muted-foreground">
+                          Before it was {revision.action} on {formatTimestamp(revision.createdAt)}
+                        </p>
+                        <p className="bg-muted rounded p-2 whitespace-pre-wrap">{revision.previousContent}</p>
+                      </div>
+                    ))}
+                    <ReportAttachmentLinks reportId={reportId} attachments={message.attachments} />
+                    {!message.deletedAt && (
+                      <div className="text-sm">
+                        <p className="text-xs text-muted-foreground">Current</p>
+                        <p className="rounded p-2 border whitespace-pre-wrap">{message.content}</p>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ScreeningRule, ScreeningRuleType, ScreeningAction, InsertScreeningRule } from "@shared/schema";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2 } from "lucide-react";
+
+const ruleTypes: Record<ScreeningRuleType, { label: string; hint: string }> = {
+  keywords: { label: "Keywords", hint: "One word or phrase per line, or comma separated. Matches whole words, ignoring case." },
+  regex: { label: "Regular expression", hint: "A JavaScript regular expression of up to 500 characters, matched ignoring case. Repeated groups that already repeat or have alternatives, like (a+)+ or (a|b)*, are refused." },
+  links: { label: "Links", hint: "Matches web addresses such as https://… or example.com." },
+  contact_info: { label: "Contact details", hint: "Matches email addresses and phone numbers." },
+};
+
+const ruleActions: Record<ScreeningAction, { label: string; description: string; className: string }> = {
+  block: { label: "Block", description: "The message is not sent", className: "bg-red-100 text-red-800" },
+  warn: { label: "Warn", description: "The member must confirm before it is sent", className: "bg-yellow-100 text-yellow-800" },
+  flag: { label: "Flag", description: "Sent, and a report is filed for review", className: "bg-blue-100 text-blue-800" },
+};
+
+const emptyRule: InsertScreeningRule = { name: "", type: "keywords", pattern: "", action: "flag", isActive: true };
+
+const toInsert = (rule: ScreeningRule): InsertScreeningRule => ({
+  name: rule.name,
+  type: rule.type,
+  pattern: rule.pattern ?? undefined,
+  action: rule.action,
+  isActive: rule.isActive,
+});
+
+// Admin editor for the rules server/contentScreening.ts runs on every message
+export default function ScreeningRules() {
+  const [draft, setDraft] = useState<InsertScreeningRule>(emptyRule);
+  const { toast } = useToast();
+  const rulesKey = ['/api/admin/screening-rules'];
+
+  const { data: rules = [], isLoading } = useQuery<ScreeningRule[]>({
+    queryKey: rulesKey,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save screening rule",
+      variant: "destructive",
+    });
+  };
+
+  const createRule = useMutation({
+    mutationFn: async (rule: InsertScreeningRule) => {
+      return apiRequest('POST', '/api/admin/screening-rules', rule);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey });
+      setDraft(emptyRule);
+      toast({ title: "Rule Added", description: "New messages are now checked against this rule." });
+    },
+    onError,
+  });
+
+  const updateRule = useMutation({
+    mutationFn: async ({ id, rule }: { id: string; rule: InsertScreeningRule }) => {
+      return apiRequest('PUT', `/api/admin/screening-rules/${id}`, rule);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey });
+    },
+    onError,
+  });
+
+  const deleteRule = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest('DELETE', `/api/admin/screening-rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: rulesKey });
+      toast({ title: "Rule Deleted", description: "The screening rule has been removed." });
+    },
+    onError,
+  });
+
+  const needsPattern = draft.type === "keywords" || draft.type === "regex";
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    createRule.mutate({ ...draft, pattern: needsPattern ? draft.pattern : undefined });
+  };
+
+  return (
+    <Card data-testid="card-screening-rules">
+      <CardHeader>
+        <CardTitle>Message Screening</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Rules checked on every message before it is sent or edited. When several rules match, the strictest action applies.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="screening-rule-name">Name</Label>
+            <Input
+              id="screening-rule-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Off-platform contact"
+              data-testid="input-screening-rule-name"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Checks for</Label>
+            <Select value={draft.type} onValueChange={(type) => setDraft({ ...draft, type: type as ScreeningRuleType })}>
+              <SelectTrigger data-testid="select-screening-rule-type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ruleTypes) as ScreeningRuleType[]).map((type) => (
+                  <SelectItem key={type} value={type}>{ruleTypes[type].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Action</Label>
+            <Select value={draft.action} onValueChange={(action) => setDraft({ ...draft, action: action as ScreeningAction })}>
+              <SelectTrigger data-testid="select-screening-rule-action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(ruleActions) as ScreeningAction[]).map((action) => (
+                  <SelectItem key={action} value={action}>
+                    {ruleActions[action].label} - {ruleActions[action].description}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2 md:col-span-3">
+            {needsPattern && (
+              <Textarea
+                value={draft.pattern ?? ""}
+                onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+                placeholder={draft.type === "keywords" ? "one phrase per line" : "pattern"}
+                rows={3}
+                data-testid="input-screening-rule-pattern"
+              />
+            )}
+            <p className="text-xs text-muted-foreground">{ruleTypes[draft.type].hint}</p>
+          </div>
+          <div className="md:col-span-3">
+            <Button
+              type="submit"
+              disabled={!draft.name.trim() || (needsPattern && !draft.pattern?.trim()) || createRule.isPending}
+              data-testid="button-add-screening-rule"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              {createRule.isPending ? "Adding..." : "Add Rule"}
+            </Button>
+          </div>
+        </form>
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading screening rules...</div>
+        ) : rules.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-screening-rules">
+            No screening rules yet. Messages are only reviewed when a member files a report.
+          </p>
+        ) : (
+          <Table data-testid="table-screening-rules">
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Checks for</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id} data-testid={`row-screening-rule-${rule.id}`}>
+                  <TableCell>
+                    <p className="font-medium text-sm">{rule.name}</p>
+                    {rule.pattern && (
+                      <p className="text-xs text-muted-foreground font-mono truncate max-w-xs">{rule.pattern}</p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{ruleTypes[rule.type].label}</TableCell>
+                  <TableCell>
+                    <Badge className={ruleActions[rule.action].className}>{ruleActions[rule.action].label}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={rule.isActive}
+                      onCheckedChange={(isActive) => updateRule.mutate({ id: rule.id, rule: { ...toInsert(rule), isActive } })}
+                      disabled={updateRule.isPending}
+                      data-testid={`switch-screening-rule-${rule.id}`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteRule.mutate(rule.id)}
+                      disabled={deleteRule.isPending}
+                      data-testid={`button-delete-screening-rule-${rule.id}`}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,60 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { PartnerPresence, Serialized } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { useRealtime, sendRealtime } from "@/hooks/use-realtime";
+
+// A partner stops showing as typing this long after their last typing notice
+const TYPING_TIMEOUT_MS = 6000;
+// While the member keeps typing, notices go out at most this often
+const TYPING_THROTTLE_MS = 3000;
+
+type PresenceByUser = Record<string, Serialized<PartnerPresence>>;
+
+/**
+ * Online/idle/last-seen status of the other members of a partnership, and who is typing
+ * in its chat. Starts from the presence endpoint and follows realtime events after that.
+ */
+export function usePartnerPresence(partnershipId: string) {
+  const presenceKey = ['/api/partnerships', partnershipId, 'presence'];
+  const { data: presence = {} } = useQuery<PresenceByUser>({ queryKey: presenceKey });
+  const [typingUntil, setTypingUntil] = useState<Record<string, number>>({});
+  const lastTypingSent = useRef(0);
+
+  const { connected } = useRealtime((event) => {
+    if (event.type === "presence") {
+      queryClient.setQueryData<PresenceByUser>(presenceKey, (current) =>
+        current && event.userId in current ? { ...current, [event.userId]: event.presence } : current
+      );
+    } else if (event.type === "typing" && event.partnershipId === partnershipId) {
+      setTypingUntil((current) => ({ ...current, [event.userId]: Date.now() + TYPING_TIMEOUT_MS }));
+    } else if (event.type === "message" && event.partnershipId === partnershipId) {
+      // Sending the message ends that member's typing
+      setTypingUntil(({ [event.message.senderId]: _sent, ...rest }) => rest);
+    }
+  });
+
+  // Statuses may have changed while the socket was down
+  useEffect(() => {
+    if (connected) queryClient.invalidateQueries({ queryKey: presenceKey });
+  }, [connected, partnershipId]);
+
+  useEffect(() => {
+    const expiries = Object.values(typingUntil);
+    if (expiries.length === 0) return;
+    const timer = setTimeout(() => {
+      const now = Date.now();
+      setTypingUntil((current) => Object.fromEntries(Object.entries(current).filter(([, until]) => until > now)));
+    }, Math.max(0, Math.min(...expiries) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [typingUntil]);
+
+  const notifyTyping = () => {
+    const now = Date.now();
+    if (now - lastTypingSent.current < TYPING_THROTTLE_MS) return;
+    lastTypingSent.current = now;
+    sendRealtime({ type: "typing", partnershipId });
+  };
+
+  return { presence, typingUserIds: Object.keys(typingUntil), notifyTyping };
+}
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from "react";
+import { RealtimeClientEvent, RealtimeEvent as PublishedRealtimeEvent, Serialized } from "@shared/schema";
+
+// The events server/realtime.ts publishes, as they arrive over the socket
+export type RealtimeEvent = Serialized<PublishedRealtimeEvent>;
+
+type Subscriber = {
+  onEvent: (event: RealtimeEvent) => void;
+  onConnectionChange: (connected: boolean) => void;
+};
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+// A tab with no input for this long, or one in the background, counts as idle
+const IDLE_AFTER_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ["mousemove", "mousedown", "keydown", "touchstart", "scroll"] as const;
+
+// One socket per tab, shared by every component that subscribes
+const subscribers = new Set<Subscriber>();
+let socket: WebSocket | null = null;
+let socketConnected = false;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+let attempts = 0;
+let idle = false;
+let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+function setConnected(connected: boolean) {
+  socketConnected = connected;
+  subscribers.forEach((subscriber) => subscriber.onConnectionChange(connected));
+}
+
+export function sendRealtime(event: RealtimeClientEvent) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(event));
+  }
+}
+
+function setIdle(next: boolean) {
+  if (idle === next) return;
+  idle = next;
+  sendRealtime({ type: "activity", idle });
+}
+
+function onActivity() {
+  clearTimeout(idleTimer);
+  if (document.visibilityState !== "visible") {
+    setIdle(true);
+    return;
+  }
+  setIdle(false);
+  idleTimer = setTimeout(() => setIdle(true), IDLE_AFTER_MS);
+}
+
+function watchActivity(watch: boolean) {
+  const method = watch ? "addEventListener" : "removeEventListener";
+  ACTIVITY_EVENTS.forEach((type) => window[method](type, onActivity, { passive: true }));
+  document[method]("visibilitychange", onActivity);
+  clearTimeout(idleTimer);
+  if (watch) onActivity();
+}
+
+function connect() {
+  clearTimeout(retryTimer);
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const current = new WebSocket(`${protocol}//${window.location.host}/ws`);
+  socket = current;
+  current.onopen = () => {
+    attempts = 0;
+    // The server treats new connections as active
+    if (idle) sendRealtime({ type: "activity", idle });
+    setConnected(true);
+  };
+  current.onmessage = (message) => {
+    let event: RealtimeEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch (error) {
+      console.warn("Ignoring malformed realtime event", error);
+      return;
+    }
+    subscribers.forEach((subscriber) => subscriber.onEvent(event));
+  };
+  current.onclose = () => {
+    if (socket !== current) return;
+    socket = null;
+    setConnected(false);
+    if (subscribers.size === 0) return;
+    const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts);
+    attempts += 1;
+    retryTimer = setTimeout(connect, delay);
+  };
+}
+
+function disconnect() {
+  clearTimeout(retryTimer);
+  const current = socket;
+  socket = null;
+  attempts = 0;
+  current?.close();
+  setConnected(false);
+}
+
+/**
+ * Subscribes to server pushes while mounted, opening the shared socket on first use and
+ * reconnecting with backoff. `connected` is false whenever events could be missed, so
+ * callers can fall back to polling.
+ */
+export function useRealtime(onEvent: (event: RealtimeEvent) => void) {
+  const [connected, setConnectedState] = useState(socketConnected);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    const subscriber: Subscriber = {
+      onEvent: (event) => onEventRef.current(event),
+      onConnectionChange: setConnectedState,
+    };
+    subscribers.add(subscriber);
+    if (subscribers.size === 1) watchActivity(true);
+    if (!socket) connect();
+    setConnectedState(socketConnected);
+
+    return () => {
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0) {
+        watchActivity(false);
+        disconnect();
+      }
+    };
+  }, []);
+
+  return { connected };
+}
@@ -26,6 +26,18 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body, typed as the file itself
+export async function apiUpload(method: string, url: string, file: Blob): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -2,8 +2,12 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { User, Partnership, Announcement, InsertAnnouncement, insertAnnouncementSchema } from "@shared/schema";
+import { User, Partnership, Announcement, InsertAnnouncement, insertAnnouncementSchema, MatchRound, ScheduledJobRun, AdminAuditLogEntry, PartnershipFeedback, AttachmentSummary } from "@shared/schema";
 import Header from "@/components/header";
+import MatchRoundPreview from "@/components/match-round-preview";
+import PartnershipActions from "@/components/partnership-actions";
+import ReportMessageHistory, { ReportAttachmentLinks } from "@/components/report-message-history";
+import ScreeningRules from "@/components/screening-rules";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -45,7 +49,9 @@ import {
 
 interface AdminStats {
   activeUsers: number;
+  pausedUsers: number;
   currentPartnerships: number;
+  waitlistedUsers: number;
   pendingReports: number;
 }
 
@@ -54,9 +60,12 @@ interface ReportWithUsers {
   reason: string;
   description: string | null;
   status: string;
+  partnershipId: string | null;
+  source: "member" | "screening";
   createdAt: string;
-  reporter: User;
+  reporter: User | null; // Null for reports filed by content screening
   reportedUser: User;
+  message: { id: string; content: string; deletedAt: string | null; attachments: AttachmentSummary[] } | null;
 }
 
 interface InviteCodeWithUsers {
@@ -72,15 +81,59 @@ interface InviteCodeWithUsers {
   usedByUser: { id: string; username: string; name: string } | null;
 }
 
+interface PartnershipMember {
+  id: string;
+  name: string;
+  email: string;
+  isPaused: boolean;
+}
+
 interface PartnershipWithUsers extends Partnership {
-  user1: { id: string; name: string; email: string } | null;
-  user2: { id: string; name: string; email: string } | null;
+  user1: PartnershipMember | null;
+  user2: PartnershipMember | null;
+  user3: PartnershipMember | null;
+}
+
+interface SchedulerStatus {
+  enabled: boolean;
+  matchRoundIntervalDays: number;
+  jobs: { name: string; description: string }[];
+  runs: ScheduledJobRun[];
+}
+
+interface AuditLogEntryWithAdmin extends AdminAuditLogEntry {
+  admin: { id: string; name: string; email: string } | null;
+}
+
+interface FeedbackOverview {
+  summary: {
+    responses: number;
+    averageRating: number | null;
+    wouldMatchAgainRate: number | null;
+    ratingCounts: number[];
+  };
+  recent: (PartnershipFeedback & { member: { id: string; name: string; email: string } | null })[];
 }
 
 interface AnnouncementWithCreator extends Announcement {
   creator: { id: string; name: string; email: string } | null;
 }
 
+interface MatchRoundWithCreator extends MatchRound {
+  creator: { id: string; name: string; email: string } | null;
+}
+
+const auditActionLabels: Record<string, string> = {
+  "partnership.create": "Created pair",
+  "partnership.swap": "Swapped partners",
+  "partnership.reassign": "Reassigned",
+  "partnership.view_messages": "Viewed messages",
+  "partnership.view_status_history": "Viewed status history",
+  "partnership.view_check_ins": "Viewed check-ins",
+  "report.view_message_revisions": "Viewed message history",
+  "report.view_attachment": "Viewed attachment",
+};
+
 interface AdminProps {
   user: User;
 }
@@ -89,6 +142,12 @@ export default function Admin({ user }: AdminProps) {
   const [activeTab, setActiveTab] = useState("dashboard");
   const [newInviteMaxUses, setNewInviteMaxUses] = useState("1");
   const [newInviteExpires, setNewInviteExpires] = useState("");
+  const [repeatLookbackRounds, setRepeatLookbackRounds] = useState("3");
+  const [oddPoolPolicy, setOddPoolPolicy] = useState("waitlist");
+  const [maxTimezoneOffsetHours, setMaxTimezoneOffsetHours] = useState("12");
+  const [matchingStrategy, setMatchingStrategy] = useState("scored");
+  const [previewRoundId, setPreviewRoundId] = useState<string | null>(null);
+  const [reassignTarget, setReassignTarget] = useState<PartnershipWithUsers | null>(null);
   const [showCreateAnnouncementDialog, setShowCreateAnnouncementDialog] = useState(false);
   const [showEditAnnouncementDialog, setShowEditAnnouncementDialog] = useState(false);
   const [editingAnnouncement, setEditingAnnouncement] = useState<AnnouncementWithCreator | null>(null);
@@ -131,23 +190,54 @@ export default function Admin({ user }: AdminProps) {
     enabled: activeTab === 'dashboard',
   });
 
+  // Fetch match rounds
+  const { data: matchRounds = [], isLoading: matchRoundsLoading } = useQuery<MatchRoundWithCreator[]>({
+    queryKey: ['/api/admin/match-rounds'],
+    enabled: activeTab === 'dashboard',
+  });
+
+  // Fetch end-of-partnership feedback summary
+  const { data: feedbackOverview, isLoading: feedbackLoading } = useQuery<FeedbackOverview>({
+    queryKey: ['/api/admin/feedback'],
+    enabled: activeTab === 'dashboard',
+  });
+
+  // Fetch scheduler status and job run history
+  const { data: scheduler, isLoading: schedulerLoading } = useQuery<SchedulerStatus>({
+    queryKey: ['/api/admin/scheduler'],
+    enabled: activeTab === 'system',
+  });
+
+  // Fetch admin audit trail
+  const { data: auditLog = [], isLoading: auditLogLoading } = useQuery<AuditLogEntryWithAdmin[]>({
+    queryKey: ['/api/admin/audit-log'],
+    enabled: activeTab === 'system',
+  });
+
   // Fetch announcements
   const { data: announcements = [], isLoading: announcementsLoading } = useQuery<AnnouncementWithCreator[]>({
     queryKey: ['/api/admin/announcements'],
     enabled: activeTab === 'announcements',
   });
 
-  // Create matches mutation
+  // Create draft match round mutation - partnerships are only created once the round is committed
   const createMatches = useMutation({
     mutationFn: async () => {
-      return apiRequest('POST', '/api/admin/create-matches');
+      const response = await apiRequest('POST', '/api/admin/match-rounds', {
+        strategy: matchingStrategy,
+        repeatLookbackRounds: parseInt(repeatLookbackRounds, 10),
+        oddPoolPolicy,
+        maxTimezoneOffsetHours: parseInt(maxTimezoneOffsetHours, 10),
+      });
+      return response.json() as Promise<MatchRound>;
     },
-    onSuccess: () => {
+    onSuccess: (round) => {
       toast({
-        title: "Matches Created",
-        description: "Monthly matches have been successfully created.",
+        title: "Draft Round Created",
+        description: `${round.proposal.pairs.length} partnerships proposed from ${round.proposal.candidateCount} available members. Review and commit below.`,
       });
-      queryClient.invalidateQueries({ queryKey: ['/api/admin/stats'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/match-rounds'] });
+      setPreviewRoundId(round.id);
     },
     onError: (error: any) => {
       toast({
@@ -472,7 +562,7 @@ export default function Admin({ user }: AdminProps) {
           {/* Dashboard Tab */}
           <TabsContent value="dashboard" className="space-y-6">
             {/* Stats Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
               <Card data-testid="card-active-users">
                 <CardContent className="p-6">
                   <div className="flex items-center">
@@ -482,6 +572,11 @@ export default function Admin({ user }: AdminProps) {
                       <p className="text-2xl font-bold text-blue-600" data-testid="stat-active-users">
                         {statsLoading ? "..." : stats?.activeUsers || 0}
                       </p>
+                      {!!stats?.pausedUsers && (
+                        <p className="text-xs text-muted-foreground" data-testid="stat-paused-users">
+                          {stats.pausedUsers} paused
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardContent>
@@ -501,6 +596,20 @@ export default function Admin({ user }: AdminProps) {
                 </CardContent>
               </Card>
 
+              <Card data-testid="card-waitlisted-users">
+                <CardContent className="p-6">
+                  <div className="flex items-center">
+                    <Calendar className="h-8 w-8 text-purple-600" />
+                    <div className="ml-4">
+                      <p className="text-sm font-medium text-muted-foreground">Waitlisted</p>
+                      <p className="text-2xl font-bold text-purple-600" data-testid="stat-waitlisted-users">
+                        {statsLoading ? "..." : stats?.waitlistedUsers || 0}
+                      </p>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+
               <Card data-testid="card-pending-reports">
                 <CardContent className="p-6">
                   <div className="flex items-center">
@@ -537,7 +646,7 @@ export default function Admin({ user }: AdminProps) {
                       <div className="text-left">
                         <p className="font-medium">Create Monthly Matches</p>
                         <p className="text-sm text-primary-foreground/80">
-                          {createMatches.isPending ? "Creating matches..." : "Generate new partnership matches"}
+                          {createMatches.isPending ? "Proposing matches..." : "Preview new partnership matches"}
                         </p>
                       </div>
                     </div>
@@ -567,13 +676,230 @@ export default function Admin({ user }: AdminProps) {
                     </div>
                   </Button>
                 </div>
+                <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="matching-strategy">Matching strategy</Label>
+                    <Select value={matchingStrategy} onValueChange={setMatchingStrategy}>
+                      <SelectTrigger id="matching-strategy" data-testid="select-matching-strategy">
+                        <SelectValue placeholder="Select strategy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="scored">Scored (timezone, availability, history)</SelectItem>
+                        <SelectItem value="random">Random among compatible members</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Both strategies respect gender preferences, exclusions and the timezone limit.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="repeat-lookback">Avoid repeat partners from the last</Label>
+                    <Select value={repeatLookbackRounds} onValueChange={setRepeatLookbackRounds}>
+                      <SelectTrigger id="repeat-lookback" data-testid="select-repeat-lookback">
+                        <SelectValue placeholder="Select lookback window" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="0">0 rounds (allow repeats)</SelectItem>
+                        <SelectItem value="1">1 round</SelectItem>
+                        <SelectItem value="3">3 rounds</SelectItem>
+                        <SelectItem value="6">6 rounds</SelectItem>
+                        <SelectItem value="12">12 rounds</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Recent partners are only paired again when no other valid pairing exists.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="odd-pool-policy">Members left over in an odd pool</Label>
+                    <Select value={oddPoolPolicy} onValueChange={setOddPoolPolicy}>
+                      <SelectTrigger id="odd-pool-policy" data-testid="select-odd-pool-policy">
+                        <SelectValue placeholder="Select policy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="waitlist">Priority waitlist for next round</SelectItem>
+                        <SelectItem value="triad">Join a compatible pair as a triad</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Members who cannot join a triad are always placed on the waitlist.
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="max-timezone-offset">Maximum timezone difference</Label>
+                    <Select value={maxTimezoneOffsetHours} onValueChange={setMaxTimezoneOffsetHours}>
+                      <SelectTrigger id="max-timezone-offset" data-testid="select-max-timezone-offset">
+                        <SelectValue placeholder="Select maximum difference" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="2">2 hours</SelectItem>
+                        <SelectItem value="4">4 hours</SelectItem>
+                        <SelectItem value="6">6 hours</SelectItem>
+                        <SelectItem value="9">9 hours</SelectItem>
+                        <SelectItem value="12">No limit</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Closer timezones and shared availability are always preferred. Members without a timezone are not limited.
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            {previewRoundId && (
+              <MatchRoundPreview roundId={previewRoundId} onClose={() => setPreviewRoundId(null)} />
+            )}
+
+            {/* Match Round History */}
+            <Card data-testid="card-match-rounds">
+              <CardHeader>
+                <CardTitle>Match Rounds</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Every round with its parameters, creator and timestamps.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {matchRoundsLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="text-muted-foreground">Loading match rounds...</div>
+                  </div>
+                ) : matchRounds.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">
+                    No match rounds yet. Use "Create Monthly Matches" to propose one.
+                  </p>
+                ) : (
+                  <ScrollArea className="h-64">
+                    <Table data-testid="table-match-rounds">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Created</TableHead>
+                          <TableHead>Created By</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Pairs</TableHead>
+                          <TableHead>Unmatched</TableHead>
+                          <TableHead>Parameters</TableHead>
+                          <TableHead></TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {matchRounds.map((round) => (
+                          <TableRow key={round.id} data-testid={`match-round-${round.id}`}>
+                            <TableCell>{new Date(round.createdAt!).toLocaleString()}</TableCell>
+                            <TableCell>{round.createdBy ? round.creator?.name || 'Unknown User' : 'Scheduler'}</TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={round.status === 'committed' ? 'default' : round.status === 'draft' ? 'outline' : 'secondary'}
+                                data-testid={`round-status-${round.id}`}
+                              >
+                                {round.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{round.proposal.pairs.length}</TableCell>
+                            <TableCell>{round.proposal.unmatched.length}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">
+                              {round.parameters.strategy ?? 'scored'}, lookback {round.parameters.repeatLookbackRounds}, {round.parameters.oddPoolPolicy}
+                              {round.parameters.maxTimezoneOffsetHours !== undefined && round.parameters.maxTimezoneOffsetHours < 12 &&
+                                `, max ${round.parameters.maxTimezoneOffsetHours}h apart`}
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setPreviewRoundId(round.id)}
+                                data-testid={`button-view-round-${round.id}`}
+                              >
+                                <Eye className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Partnership Feedback */}
+            <Card data-testid="card-partnership-feedback-summary">
+              <CardHeader>
+                <CardTitle>Partnership Feedback</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  End-of-partnership survey results. Pairs who both rate 2 or lower are never matched again;
+                  pairs who both want to be matched again are preferred.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {feedbackLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="text-muted-foreground">Loading feedback...</div>
+                  </div>
+                ) : !feedbackOverview?.summary.responses ? (
+                  <p className="text-center py-8 text-muted-foreground">No feedback has been submitted yet.</p>
+                ) : (
+                  <div className="space-y-4">
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                      <div className="p-4 border border-border rounded-lg">
+                        <p className="text-sm text-muted-foreground">Responses</p>
+                        <p className="text-2xl font-bold" data-testid="text-feedback-responses">{feedbackOverview.summary.responses}</p>
+                      </div>
+                      <div className="p-4 border border-border rounded-lg">
+                        <p className="text-sm text-muted-foreground">Average Rating</p>
+                        <p className="text-2xl font-bold" data-testid="text-feedback-average">{feedbackOverview.summary.averageRating} / 5</p>
+                      </div>
+                      <div className="p-4 border border-border rounded-lg">
+                        <p className="text-sm text-muted-foreground">Would Match Again</p>
+                        <p className="text-2xl font-bold" data-testid="text-feedback-match-again">{feedbackOverview.summary.wouldMatchAgainRate}%</p>
+                      </div>
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      Ratings: {feedbackOverview.summary.ratingCounts.map((count, index) => `${index + 1}★ ${count}`).join(" · ")}
+                    </p>
+                    <ScrollArea className="h-64">
+                      <Table data-testid="table-feedback">
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Member</TableHead>
+                            <TableHead>Rating</TableHead>
+                            <TableHead>Match Again</TableHead>
+                            <TableHead>Comments</TableHead>
+                            <TableHead>Date</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {feedbackOverview.recent.map((entry) => (
+                            <TableRow key={entry.id} data-testid={`feedback-${entry.id}`}>
+                              <TableCell>{entry.member?.name || entry.member?.email || 'Unknown User'}</TableCell>
+                              <TableCell>{entry.rating}/5</TableCell>
+                              <TableCell>
+                                <Badge variant={entry.wouldMatchAgain ? 'default' : 'secondary'}>
+                                  {entry.wouldMatchAgain ? 'Yes' : 'No'}
+                                </Badge>
+                              </TableCell>
+                              <TableCell className="text-sm text-muted-foreground">{entry.comments || '-'}</TableCell>
+                              <TableCell>{entry.createdAt ? new Date(entry.createdAt).toLocaleDateString() : '-'}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </ScrollArea>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
             {/* Current Partnerships List */}
             <Card data-testid="card-partnerships-list">
               <CardHeader>
-                <CardTitle>Current Partnerships</CardTitle>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Current Partnerships</CardTitle>
+                  <PartnershipActions
+                    partnerships={partnerships}
+                    reassignTarget={reassignTarget}
+                    onReassignClose={() => setReassignTarget(null)}
+                  />
+                </div>
                 <p className="text-sm text-muted-foreground">
                   Detailed list of all partnerships with start and end dates.
                 </p>
@@ -602,6 +928,7 @@ export default function Admin({ user }: AdminProps) {
                           <TableHead>Start Date</TableHead>
                           <TableHead>End Date</TableHead>
                           <TableHead>Duration</TableHead>
+                          <TableHead>Actions</TableHead>
                         </TableRow>
                       </TableHeader>
                       <TableBody>
@@ -618,7 +945,10 @@ export default function Admin({ user }: AdminProps) {
                                     {getInitials(partnership.user1?.name || null)}
                                   </div>
                                   <div>
-                                    <p className="font-medium text-sm">{partnership.user1?.name || 'Unknown User'}</p>
+                                    <p className="font-medium text-sm">
+                                      {partnership.user1?.name || 'Unknown User'}
+                                      {partnership.user1?.isPaused && <Badge variant="outline" className="ml-2">paused</Badge>}
+                                    </p>
                                     <p className="text-xs text-muted-foreground">{partnership.user1?.email}</p>
                                   </div>
                                 </div>
@@ -629,8 +959,17 @@ export default function Admin({ user }: AdminProps) {
                                     {getInitials(partnership.user2?.name || null)}
                                   </div>
                                   <div>
-                                    <p className="font-medium text-sm">{partnership.user2?.name || 'Unknown User'}</p>
+                                    <p className="font-medium text-sm">
+                                      {partnership.user2?.name || 'Unknown User'}
+                                      {partnership.user2?.isPaused && <Badge variant="outline" className="ml-2">paused</Badge>}
+                                    </p>
                                     <p className="text-xs text-muted-foreground">{partnership.user2?.email}</p>
+                                    {partnership.user3 && (
+                                      <p className="text-xs text-muted-foreground" data-testid={`third-member-${partnership.id}`}>
+                                        + {partnership.user3.name || partnership.user3.email} (triad)
+                                        {partnership.user3.isPaused && " - paused"}
+                                      </p>
+                                    )}
                                   </div>
                                 </div>
                               </TableCell>
@@ -661,6 +1000,19 @@ export default function Admin({ user }: AdminProps) {
                                   {durationDays} days
                                 </span>
                               </TableCell>
+                              <TableCell>
+                                {partnership.status === 'active' && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => setReassignTarget(partnership)}
+                                    data-testid={`button-reassign-${partnership.id}`}
+                                  >
+                                    <RefreshCw className="h-4 w-4 mr-1" />
+                                    Reassign
+                                  </Button>
+                                )}
+                              </TableCell>
                             </TableRow>
                           );
                         })}
@@ -712,19 +1064,30 @@ export default function Admin({ user }: AdminProps) {
                         {reports.map((report) => (
                           <TableRow key={report.id} data-testid={`row-report-${report.id}`}>
                             <TableCell>
-                              <div className="flex items-center space-x-2">
-                                <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center text-blue-700 text-sm font-medium">
-                                  {getInitials(report.reporter.name)}
+                              {report.reporter ? (
+                                <div className="flex items-center space-x-2">
+                                  <div className="w-8 h-8 bg-blue-100 rounded-full flex items-center justify-center text-blue-700 text-sm font-medium">
+                                    {getInitials(report.reporter.name)}
+                                  </div>
+                                  <div>
+                                    <p className="font-medium text-sm" data-testid={`reporter-name-${report.id}`}>
+                                      {report.reporter.name}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {formatGender(report.reporter.gender)}
+                                    </p>
+                                  </div>
                                 </div>
-                                <div>
+                              ) : (
+                                <div className="flex items-center space-x-2">
+                                  <div className="w-8 h-8 bg-muted rounded-full flex items-center justify-center text-muted-foreground">
+                                    <Shield className="w-4 h-4" />
+                                  </div>
                                   <p className="font-medium text-sm" data-testid={`reporter-name-${report.id}`}>
-                                    {report.reporter.name}
-                                  </p>
-                                  <p className="text-xs text-muted-foreground">
-                                    {formatGender(report.reporter.gender)}
+                                    Content screening
                                   </p>
                                 </div>
-                              </div>
+                              )}
                             </TableCell>
                             <TableCell>
                               <div className="flex items-center space-x-2">
@@ -751,6 +1114,14 @@ export default function Admin({ user }: AdminProps) {
                                     {report.description}
                                   </p>
                                 )}
+                                {report.message && (
+                                  <p className="text-xs mt-1 p-2 bg-muted rounded whitespace-pre-wrap" data-testid={`report-message-${report.id}`}>
+                                    {report.message.deletedAt ? "Message was deleted; see its message history" : report.message.content}
+                                  </p>
+                                )}
+                                {report.message && !report.message.deletedAt && (report.status === "pending" || report.status === "investigating") && (
+                                  <ReportAttachmentLinks reportId={report.id} attachments={report.message.attachments} />
+                                )}
                               </div>
                             </TableCell>
                             <TableCell>
@@ -816,6 +1187,9 @@ export default function Admin({ user }: AdminProps) {
                                     </Button>
                                   </>
                                 )}
+                                {report.partnershipId && (report.status === 'pending' || report.status === 'investigating') && (
+                                  <ReportMessageHistory reportId={report.id} />
+                                )}
                                 {(report.status === 'resolved' || report.status === 'dismissed') && (
                                   <Badge variant="outline" className="text-xs">
                                     {report.status === 'resolved' ? 'Completed' : 'Closed'}
@@ -831,6 +1205,8 @@ export default function Admin({ user }: AdminProps) {
                 )}
               </CardContent>
             </Card>
+
+            <ScreeningRules />
           </TabsContent>
 
           {/* Invite Codes Tab */}
@@ -1568,6 +1944,103 @@ export default function Admin({ user }: AdminProps) {
               </CardContent>
             </Card>
 
+            <Card data-testid="card-scheduled-jobs">
+              <CardHeader>
+                <CardTitle>Scheduled Jobs</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  {scheduler?.enabled
+                    ? scheduler.jobs.map((job) => job.description).join(". ")
+                    : "The background scheduler is disabled on this server."}
+                </p>
+              </CardHeader>
+              <CardContent>
+                {schedulerLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="text-muted-foreground">Loading job history...</div>
+                  </div>
+                ) : !scheduler?.runs.length ? (
+                  <p className="text-center py-8 text-muted-foreground">No scheduled jobs have run yet.</p>
+                ) : (
+                  <ScrollArea className="h-64">
+                    <Table data-testid="table-job-runs">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Job</TableHead>
+                          <TableHead>Status</TableHead>
+                          <TableHead>Started</TableHead>
+                          <TableHead>Finished</TableHead>
+                          <TableHead>Result</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {scheduler.runs.map((run) => (
+                          <TableRow key={run.id} data-testid={`job-run-${run.id}`}>
+                            <TableCell className="font-medium">{run.jobName}</TableCell>
+                            <TableCell>
+                              <Badge
+                                variant={run.status === 'failed' ? 'destructive' : run.status === 'running' ? 'outline' : 'default'}
+                                data-testid={`job-run-status-${run.id}`}
+                              >
+                                {run.status}
+                              </Badge>
+                            </TableCell>
+                            <TableCell>{new Date(run.startedAt).toLocaleString()}</TableCell>
+                            <TableCell>{run.finishedAt ? new Date(run.finishedAt).toLocaleString() : '-'}</TableCell>
+                            <TableCell className="text-xs text-muted-foreground">{run.error || run.summary}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card data-testid="card-audit-log">
+              <CardHeader>
+                <CardTitle>Audit Trail</CardTitle>
+                <p className="text-sm text-muted-foreground">
+                  Manual partnership changes made by admins, newest first.
+                </p>
+              </CardHeader>
+              <CardContent>
+                {auditLogLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="text-muted-foreground">Loading audit trail...</div>
+                  </div>
+                ) : auditLog.length === 0 ? (
+                  <p className="text-center py-8 text-muted-foreground">No admin changes have been recorded yet.</p>
+                ) : (
+                  <ScrollArea className="h-64">
+                    <Table data-testid="table-audit-log">
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>When</TableHead>
+                          <TableHead>Admin</TableHead>
+                          <TableHead>Action</TableHead>
+                          <TableHead>Details</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {auditLog.map((entry) => (
+                          <TableRow key={entry.id} data-testid={`audit-entry-${entry.id}`}>
+                            <TableCell>{entry.createdAt ? new Date(entry.createdAt).toLocaleString() : '-'}</TableCell>
+                            <TableCell>{entry.admin?.name || entry.admin?.email || 'Unknown Admin'}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{auditActionLabels[entry.action] ?? entry.action}</Badge>
+                            </TableCell>
+                            <TableCell className="text-xs text-muted-foreground font-mono break-all">
+                              {JSON.stringify(entry.details)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </ScrollArea>
+                )}
+              </CardContent>
+            </Card>
+
             <Card data-testid="card-system-settings">
               <CardHeader>
                 <CardTitle>System Settings</CardTitle>
@@ -1579,13 +2052,18 @@ export default function Admin({ user }: AdminProps) {
                 <div className="space-y-4">
                   <div className="flex items-center justify-between p-4 border border-border rounded-lg">
                     <div>
-                      <p className="font-medium">Monthly Matching System</p>
+                      <p className="font-medium">Automatic Match Rounds</p>
                       <p className="text-sm text-muted-foreground">
-                        Manual monthly match creation available via admin controls
+                        {scheduler?.enabled && scheduler.matchRoundIntervalDays > 0
+                          ? `A match round is committed every ${scheduler.matchRoundIntervalDays} days unless an admin ran one sooner`
+                          : "Manual match rounds only, via admin controls"}
                       </p>
                     </div>
-                    <Badge variant="default" data-testid="setting-auto-matching">
-                      Enabled
+                    <Badge
+                      variant={scheduler?.enabled && scheduler.matchRoundIntervalDays > 0 ? "default" : "secondary"}
+                      data-testid="setting-auto-matching"
+                    >
+                      {scheduler?.enabled && scheduler.matchRoundIntervalDays > 0 ? "Enabled" : "Disabled"}
                     </Badge>
                   </div>
                   
@@ -1,18 +1,26 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { User, Partnership } from "@shared/schema";
+import { User, Partnership, MatchWaitlistEntry } from "@shared/schema";
 import Header from "@/components/header";
 import CurrentPartnership from "@/components/current-partnership";
 import Messaging from "@/components/messaging";
 import ProfileSidebar from "@/components/profile-sidebar";
 import MatchHistory from "@/components/match-history";
+import EndPartnershipDialog from "@/components/end-partnership-dialog";
+import NotificationsPanel from "@/components/notifications-panel";
+import PartnershipGoals from "@/components/partnership-goals";
+import PartnershipMeetings from "@/components/partnership-meetings";
+import PartnershipFeedback from "@/components/partnership-feedback";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
 
 interface CurrentPartnershipData {
   partnership: Partnership;
   partner: User;
+  partners: User[];
+  unreadCount: number;
 }
 
 interface PartnershipWithPartner {
@@ -26,6 +34,7 @@ interface DashboardProps {
 
 export default function Dashboard({ user }: DashboardProps) {
   const [showMessaging, setShowMessaging] = useState(false);
+  const [showEndDialog, setShowEndDialog] = useState(false);
   const { toast } = useToast();
 
   // Fetch current partnership
@@ -33,6 +42,20 @@ export default function Dashboard({ user }: DashboardProps) {
     queryKey: ['/api/partnerships/current'],
   });
 
+  // Keep the unread badge current as messages arrive or are read in another tab
+  useRealtime((event) => {
+    const changesUnread = event.type === "message" || event.type === "message_updated" || event.type === "read";
+    if (changesUnread && event.partnershipId === currentPartnership?.partnership.id) {
+      queryClient.invalidateQueries({ queryKey: ['/api/partnerships/current'] });
+    }
+  });
+
+  // Fetch waitlist status to explain why there is no current match
+  const { data: waitlistEntry } = useQuery<MatchWaitlistEntry | null>({
+    queryKey: ['/api/waitlist/me'],
+    enabled: !partnershipLoading && !currentPartnership,
+  });
+
   // Fetch partnership history for count
   const { data: partnershipHistory = [] } = useQuery<PartnershipWithPartner[]>({
     queryKey: ['/api/partnerships/history'],
@@ -145,9 +168,12 @@ export default function Dashboard({ user }: DashboardProps) {
 
   return (
     <div className="min-h-screen bg-background" data-testid="page-dashboard">
-      <Header user={user} hasActiveMatch={!!currentPartnership} />
+      <Header user={user} hasActiveMatch={!!currentPartnership} unreadMessages={currentPartnership?.unreadCount} />
       
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <NotificationsPanel hasActivePartnership={!!currentPartnership} />
+        <PartnershipFeedback />
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           
           {currentPartnership ? (
@@ -155,19 +181,43 @@ export default function Dashboard({ user }: DashboardProps) {
               <CurrentPartnership 
                 partnership={currentPartnership.partnership}
                 partner={currentPartnership.partner}
+                additionalPartners={currentPartnership.partners.slice(1)}
                 currentUser={user}
                 onSendMessage={handleSendMessage}
                 onReportIssue={handleReportIssue}
+                onEndPartnership={() => setShowEndDialog(true)}
+              />
+
+              <EndPartnershipDialog
+                partnership={currentPartnership.partnership}
+                partners={currentPartnership.partners}
+                open={showEndDialog}
+                onOpenChange={setShowEndDialog}
               />
 
-              {showMessaging && (
-                <div className="lg:col-span-2">
+              <div className="lg:col-span-2 grid grid-cols-1 xl:grid-cols-2 gap-8">
+                {showMessaging && (
                   <Messaging 
                     partnership={currentPartnership.partnership}
+                    partners={currentPartnership.partners}
+                    currentUser={user}
+                  />
+                )}
+                <div className={showMessaging ? "" : "xl:col-span-2"}>
+                  <PartnershipGoals
+                    partnership={currentPartnership.partnership}
+                    members={[user, ...currentPartnership.partners]}
+                    currentUser={user}
+                  />
+                </div>
+                <div className="xl:col-span-2">
+                  <PartnershipMeetings
+                    partnership={currentPartnership.partnership}
+                    members={[user, ...currentPartnership.partners]}
                     currentUser={user}
                   />
                 </div>
-              )}
+              </div>
             </>
           ) : (
             <div className="lg:col-span-2">
@@ -181,6 +231,14 @@ export default function Dashboard({ user }: DashboardProps) {
                 <p className="text-muted-foreground mb-4">
                   You'll be matched with an accountability partner when new matches are created.
                 </p>
+                {waitlistEntry && (
+                  <div className="bg-muted rounded-lg p-4 mb-4 text-left" data-testid="waitlist-status">
+                    <p className="font-medium mb-1">You're first in line for the next round</p>
+                    <p className="text-sm text-muted-foreground" data-testid="text-waitlist-reason">
+                      {waitlistEntry.detail || "You weren't matched in the last round."}
+                    </p>
+                  </div>
+                )}
                 <p className="text-sm text-muted-foreground">
                   Matching is based on your gender preferences and safety settings.
                 </p>
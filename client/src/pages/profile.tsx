@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
-import { User, insertUserSchema } from "@shared/schema";
+import { User, insertUserSchema, availabilitySchema, availabilityWindows, matchPreferenceSchema, type AvailabilityWindow } from "@shared/schema";
 import Header from "@/components/header";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -15,6 +15,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Select,
   SelectContent,
@@ -24,6 +25,7 @@ import {
 } from "@/components/ui/select";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -44,7 +46,16 @@ const updateProfileSchema = insertUserSchema.pick({
   name: true,
   gender: true,
   timezone: true,
-});
+}).extend({
+  availability: availabilitySchema,
+}).and(matchPreferenceSchema);
+
+const genderOptions = [
+  { value: "male", label: "Male" },
+  { value: "female", label: "Female" },
+  { value: "non-binary", label: "Non-binary" },
+  { value: "prefer_not_to_say", label: "Prefer not to say" },
+] as const;
 
 interface ProfileProps {
   user: User;
@@ -82,6 +93,9 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
       name: user.name,
       gender: user.gender,
       timezone: user.timezone || "",
+      availability: (user.availability || []) as AvailabilityWindow[],
+      matchPreference: user.matchPreference || "same_gender",
+      matchGenders: user.matchGenders || [],
     },
   });
 
@@ -93,6 +107,29 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
     enabled: activeSection === "exclusions",
   });
 
+  const updatePresenceVisibility = useMutation({
+    mutationFn: async (hidePresence: boolean) => {
+      const response = await apiRequest("PUT", "/api/users/me", { hidePresence });
+      return response.json() as Promise<User>;
+    },
+    onSuccess: (updatedUser) => {
+      onUserUpdate(updatedUser);
+      toast({
+        title: updatedUser.hidePresence ? "Online Status Hidden" : "Online Status Visible",
+        description: updatedUser.hidePresence
+          ? "Your partners won't see when you're online, idle, typing or last seen."
+          : "Your partners can see when you're online and typing.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update online status",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update profile mutation
   const updateProfile = useMutation({
     mutationFn: async (data: z.infer<typeof updateProfileSchema>) => {
@@ -106,6 +143,9 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
           name: updatedUser.name,
           gender: updatedUser.gender,
           timezone: updatedUser.timezone || "",
+          availability: (updatedUser.availability || []) as AvailabilityWindow[],
+          matchPreference: updatedUser.matchPreference || "same_gender",
+          matchGenders: updatedUser.matchGenders || [],
         });
         toast({
           title: "Profile Updated",
@@ -274,9 +314,7 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
                     name="gender"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>
-                          The gender you would like to be matched to
-                        </FormLabel>
+                        <FormLabel>Your gender</FormLabel>
                         <Select
                           onValueChange={field.onChange}
                           defaultValue={field.value || ""}
@@ -303,6 +341,74 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="matchPreference"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Who you're comfortable being matched with</FormLabel>
+                        <Select
+                          onValueChange={field.onChange}
+                          defaultValue={field.value}
+                          data-testid="select-match-preference"
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select matching preference" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="same_gender">
+                              Only people of my gender
+                            </SelectItem>
+                            <SelectItem value="any_gender">Anyone</SelectItem>
+                            <SelectItem value="specific">
+                              People of specific genders
+                            </SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <p className="text-sm text-muted-foreground">
+                          You'll only be matched with someone whose preference includes you too.
+                        </p>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {form.watch("matchPreference") === "specific" && (
+                    <FormField
+                      control={form.control}
+                      name="matchGenders"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Genders you're comfortable being matched with</FormLabel>
+                          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                            {genderOptions.map((option) => (
+                              <label
+                                key={option.value}
+                                className="flex items-center space-x-2 text-sm"
+                              >
+                                <Checkbox
+                                  checked={field.value.includes(option.value)}
+                                  onCheckedChange={(checked) =>
+                                    field.onChange(
+                                      checked
+                                        ? [...field.value, option.value]
+                                        : field.value.filter((value) => value !== option.value),
+                                    )
+                                  }
+                                  data-testid={`checkbox-match-gender-${option.value}`}
+                                />
+                                <span>{option.label}</span>
+                              </label>
+                            ))}
+                          </div>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
                   <FormField
                     control={form.control}
                     name="timezone"
@@ -420,6 +526,42 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
                     )}
                   />
 
+                  <FormField
+                    control={form.control}
+                    name="availability"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>When you're usually available (Optional)</FormLabel>
+                        <p className="text-sm text-muted-foreground">
+                          In your local time. Used with your timezone to find partners you can
+                          easily meet with.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                          {(Object.keys(availabilityWindows) as AvailabilityWindow[]).map((key) => (
+                            <label
+                              key={key}
+                              className="flex items-center space-x-2 text-sm"
+                            >
+                              <Checkbox
+                                checked={field.value.includes(key)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(
+                                    checked
+                                      ? [...field.value, key]
+                                      : field.value.filter((value) => value !== key),
+                                  )
+                                }
+                                data-testid={`checkbox-availability-${key}`}
+                              />
+                              <span>{availabilityWindows[key].label}</span>
+                            </label>
+                          ))}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <Button
                     type="submit"
                     disabled={updateProfile.isPending}
@@ -572,6 +714,21 @@ export default function Profile({ user, onUserUpdate }: ProfileProps) {
                       Not End to End Encrypted
                     </Badge>
                   </div>
+                  <div className="flex items-center justify-between p-3 border border-border rounded-lg">
+                    <div>
+                      <p className="font-medium">Hide my online status</p>
+                      <p className="text-sm text-muted-foreground">
+                        Partners won't see when you're online, idle, typing or
+                        last seen
+                      </p>
+                    </div>
+                    <Switch
+                      checked={!!user.hidePresence}
+                      onCheckedChange={(checked) => updatePresenceVisibility.mutate(checked)}
+                      disabled={updatePresenceVisibility.isPending}
+                      data-testid="switch-hide-presence"
+                    />
+                  </div>
                 </div>
               </div>
 
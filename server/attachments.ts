@@ -0,0 +1,253 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import { randomUUID } from "crypto";
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_THUMBNAIL_BYTES,
+  MAX_UNSENT_ATTACHMENTS,
+  UNSENT_ATTACHMENT_MAX_AGE_HOURS,
+  attachmentContentTypes,
+  type AttachmentSummary,
+  type MessageAttachment,
+  type Partnership,
+} from "@shared/schema";
+import { blobStorage } from "./blobStorage";
+import { storage } from "./storage";
+
+export class AttachmentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+type AttachmentContentType = (typeof attachmentContentTypes)[number];
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+function startsWith(data: Buffer, signature: string | number[], offset = 0): boolean {
+  const bytes = typeof signature === "string" ? Buffer.from(signature, "latin1") : Buffer.from(signature);
+  return data.subarray(offset, offset + bytes.length).equals(bytes);
+}
+
+// The type the bytes actually are, so a renamed file can't pass for an image
+function detectContentType(data: Buffer): AttachmentContentType | undefined {
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(data, "GIF87a") || startsWith(data, "GIF89a")) return "image/gif";
+  if (startsWith(data, "RIFF") && startsWith(data, "WEBP", 8)) return "image/webp";
+  if (startsWith(data, "%PDF-")) return "application/pdf";
+  try {
+    const text = new TextDecoder("utf-8", { fatal: true }).decode(data);
+    if (!text.includes("\u0000")) return "text/plain";
+  } catch {
+    // Not UTF-8 text
+  }
+  return undefined;
+}
+
+function cleanFileName(name: unknown): string {
+  const base = typeof name === "string" ? name.split(/[\\/]/).pop() ?? "" : "";
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, "").trim().slice(0, MAX_FILE_NAME_LENGTH);
+  return cleaned || "attachment";
+}
+
+const isImage = (contentType: string) => contentType.startsWith("image/");
+
+export function toAttachmentSummary(attachment: MessageAttachment): AttachmentSummary {
+  return {
+    id: attachment.id,
+    messageId: attachment.messageId,
+    fileName: attachment.fileName,
+    contentType: attachment.contentType,
+    size: attachment.size,
+    hasThumbnail: !!attachment.thumbnailKey,
+  };
+}
+
+/**
+ * Reads the request body as raw bytes, whatever its content type, and answers 413 with
+ * a readable message when it is over the limit.
+ */
+export function readAttachmentBody(limit: number) {
+  const parse = express.raw({ type: () => true, limit });
+  return (req: Request, res: Response, next: NextFunction) => {
+    parse(req, res, (error?: any) => {
+      if (error?.type === "entity.too.large") {
+        return res.status(413).json({ message: `Files can be at most ${Math.floor(limit / (1024 * 1024)) || 1} MB` });
+      }
+      next(error);
+    });
+  };
+}
+
+function requireBytes(body: unknown): Buffer {
+  if (!Buffer.isBuffer(body) || body.length === 0) {
+    throw new AttachmentError("The file is empty");
+  }
+  return body;
+}
+
+// Stores an upload that is not part of a message yet; sending a message with its id attaches it
+export async function uploadAttachment(
+  partnership: Partnership,
+  userId: string,
+  fileName: unknown,
+  declaredType: string | undefined,
+  body: unknown,
+): Promise<AttachmentSummary> {
+  const data = requireBytes(body);
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    throw new AttachmentError("The file is too large", 413);
+  }
+  if ((await storage.countUnsentAttachments(userId)) >= MAX_UNSENT_ATTACHMENTS) {
+    throw new AttachmentError(`You have ${MAX_UNSENT_ATTACHMENTS} files waiting to be sent. Send or remove some before uploading more.`, 429);
+  }
+  const contentType = detectContentType(data);
+  if (!contentType) {
+    throw new AttachmentError("Only images (PNG, JPEG, GIF, WebP), PDFs and plain text files can be attached", 415);
+  }
+  // Text is the fallback guess, so only trust it when the browser also said it was text
+  if (contentType === "text/plain" && !declaredType?.startsWith("text/plain")) {
+    throw new AttachmentError("Only images (PNG, JPEG, GIF, WebP), PDFs and plain text files can be attached", 415);
+  }
+
+  const id = randomUUID();
+  const storageKey = `attachments/${partnership.id}/${id}`;
+  await blobStorage.put(storageKey, data);
+  const attachment = await storage.createAttachment({
+    id,
+    partnershipId: partnership.id,
+    uploadedBy: userId,
+    fileName: cleanFileName(fileName),
+    contentType,
+    size: data.length,
+    storageKey,
+  });
+  return toAttachmentSummary(attachment);
+}
+
+/**
+ * The uploader's browser renders image thumbnails; the server only checks they are small
+ * JPEGs. Nothing ties a thumbnail to its image, so a sender can pair a harmless preview
+ * with any file: previews are a convenience, and moderation always looks at the file itself.
+ */
+export async function addAttachmentThumbnail(
+  partnership: Partnership,
+  attachmentId: string,
+  userId: string,
+  body: unknown,
+): Promise<AttachmentSummary> {
+  const attachment = await storage.getAttachment(attachmentId);
+  if (!attachment || attachment.partnershipId !== partnership.id || attachment.uploadedBy !== userId) {
+    throw new AttachmentError("Attachment not found", 404);
+  }
+  if (!isImage(attachment.contentType)) {
+    throw new AttachmentError("Only images have thumbnails");
+  }
+  const data = requireBytes(body);
+  if (data.length > MAX_THUMBNAIL_BYTES || detectContentType(data) !== "image/jpeg") {
+    throw new AttachmentError("Thumbnails must be JPEG images of at most 256 KB");
+  }
+
+  const thumbnailKey = `${attachment.storageKey}-thumbnail`;
+  await blobStorage.put(thumbnailKey, data);
+  const updated = await storage.setAttachmentThumbnail(attachment.id, thumbnailKey);
+  if (!updated) {
+    throw new AttachmentError("This attachment was already sent", 409);
+  }
+  return toAttachmentSummary(updated);
+}
+
+// Files go after their row, so a failure here leaves an orphaned file rather than a broken attachment
+async function deleteBlobs(attachment: MessageAttachment): Promise<void> {
+  for (const key of [attachment.storageKey, attachment.thumbnailKey]) {
+    if (!key) continue;
+    try {
+      await blobStorage.delete(key);
+    } catch (error: any) {
+      console.error(`[ATTACHMENTS] Failed to delete blob ${key}:`, error?.message || error);
+    }
+  }
+}
+
+// The uploader taking a file back out of the message they are writing
+export async function removeUnsentAttachment(partnership: Partnership, attachmentId: string, userId: string): Promise<void> {
+  const attachment = await storage.deleteUnsentAttachment(attachmentId, partnership.id, userId);
+  if (!attachment) {
+    throw new AttachmentError("Attachment not found", 404);
+  }
+  await deleteBlobs(attachment);
+}
+
+// Removes uploads never sent with a message, and their files, once they are a day old
+export async function deleteUnsentAttachments(now: Date): Promise<number> {
+  const cutoff = new Date(now.getTime() - UNSENT_ATTACHMENT_MAX_AGE_HOURS * 60 * 60 * 1000);
+  const deleted = await storage.deleteUnsentAttachments(cutoff);
+  for (const attachment of deleted) {
+    await deleteBlobs(attachment);
+  }
+  return deleted.length;
+}
+
+export interface AttachmentFile {
+  data: Buffer;
+  contentType: string;
+  fileName: string;
+  // Images are shown in the page; everything else downloads
+  inline: boolean;
+}
+
+/**
+ * An attachment's bytes for a member of its partnership. Unsent uploads are only visible
+ * to the uploader, and attachments of deleted messages to no one.
+ */
+export async function getAttachmentFile(
+  partnership: Partnership,
+  attachmentId: string,
+  userId: string,
+  thumbnail: boolean,
+): Promise<AttachmentFile> {
+  const attachment = await storage.getAttachment(attachmentId);
+  if (!attachment || attachment.partnershipId !== partnership.id) {
+    throw new AttachmentError("Attachment not found", 404);
+  }
+  if (!attachment.messageId && attachment.uploadedBy !== userId) {
+    throw new AttachmentError("Attachment not found", 404);
+  }
+  if (attachment.messageId) {
+    const message = await storage.getMessage(attachment.messageId);
+    if (!message || message.deletedAt) {
+      throw new AttachmentError("Attachment not found", 404);
+    }
+  }
+
+  const key = thumbnail ? attachment.thumbnailKey : attachment.storageKey;
+  const data = key ? await blobStorage.get(key) : undefined;
+  if (!data) {
+    throw new AttachmentError(thumbnail ? "This attachment has no thumbnail" : "Attachment not found", 404);
+  }
+  return {
+    data,
+    contentType: thumbnail ? "image/jpeg" : attachment.contentType,
+    fileName: attachment.fileName,
+    inline: isImage(attachment.contentType),
+  };
+}
+
+// The uploaded file itself, never the sender's thumbnail, for an admin reviewing a report
+export async function getAttachmentFileForReview(partnershipId: string, attachmentId: string): Promise<AttachmentFile> {
+  const attachment = await storage.getAttachment(attachmentId);
+  if (!attachment || attachment.partnershipId !== partnershipId || !attachment.messageId) {
+    throw new AttachmentError("Attachment not found", 404);
+  }
+  const data = await blobStorage.get(attachment.storageKey);
+  if (!data) {
+    throw new AttachmentError("Attachment not found", 404);
+  }
+  return {
+    data,
+    contentType: attachment.contentType,
+    fileName: attachment.fileName,
+    inline: isImage(attachment.contentType),
+  };
+}
@@ -0,0 +1,62 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+
+/**
+ * Where uploaded files are kept. Keys are generated by the server and look like
+ * relative paths ("attachments/<partnership>/<id>"); callers never pass user input
+ * as a key.
+ */
+export interface BlobStorage {
+  name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  // Undefined when nothing is stored under the key
+  get(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Files on the server's own disk, under UPLOADS_DIR (./uploads by default)
+export class LocalDiskBlobStorage implements BlobStorage {
+  name = "local";
+
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (!resolved.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, data);
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.resolve(key), { force: true });
+  }
+}
+
+// BLOB_STORAGE picks the implementation; add others (e.g. object storage) here
+function createBlobStorage(): BlobStorage {
+  const driver = process.env.BLOB_STORAGE || "local";
+  switch (driver) {
+    case "local":
+      return new LocalDiskBlobStorage(process.env.UPLOADS_DIR || path.resolve(process.cwd(), "uploads"));
+    default:
+      throw new Error(`Unknown BLOB_STORAGE "${driver}"`);
+  }
+}
+
+export const blobStorage: BlobStorage = createBlobStorage();
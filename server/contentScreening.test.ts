@@ -0,0 +1,42 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ScreeningRule } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { screenContent } from "./contentScreening";
+
+const { storage } = vi.hoisted(() => ({
+  storage: { getActiveScreeningRules: vi.fn<IStorage["getActiveScreeningRules"]>() },
+}));
+
+vi.mock("./storage", () => ({ storage }));
+
+function regexRule(id: string, pattern: string): ScreeningRule {
+  return { id, name: id, type: "regex", pattern, action: "block", isActive: true, createdBy: "admin", createdAt: null, updatedAt: null };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+describe("screenContent", () => {
+  it("matches regex rules ignoring case", async () => {
+    storage.getActiveScreeningRules.mockResolvedValue([regexRule("money", "free\\s+money")]);
+    const result = await screenContent("Get FREE   money now");
+    expect(result.action).toBe("block");
+  });
+
+  it("skips a stored rule the validator would refuse", async () => {
+    storage.getActiveScreeningRules.mockResolvedValue([regexRule("nested", "(a+)+$")]);
+    const result = await screenContent(`${"a".repeat(40)}!`);
+    expect(result.matches).toEqual([]);
+  });
+
+  it("gives up on a rule that runs past its time limit", async () => {
+    // Polynomial backtracking that no group-based check catches
+    storage.getActiveScreeningRules.mockResolvedValue([regexRule("slow", "\\s*\\s*\\s*\\s*\\s*\\s*!")]);
+    const started = Date.now();
+    const result = await screenContent(" ".repeat(4000));
+    expect(result.matches).toEqual([]);
+    expect(Date.now() - started).toBeLessThan(1000);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining("took too long"));
+  });
+});
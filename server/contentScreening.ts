@@ -0,0 +1,123 @@
+import {
+  MAX_MESSAGE_LENGTH,
+  isSafeScreeningRegex,
+  type Message,
+  type Report,
+  type ScreeningAction,
+  type ScreeningRule,
+  type ScreeningRuleType,
+} from "@shared/schema";
+import vm from "vm";
+import { storage } from "./storage";
+
+export class ScreeningError extends Error {
+  constructor(message: string, public status: number, public action: ScreeningAction) {
+    super(message);
+    this.name = "ScreeningError";
+  }
+}
+
+const LINK_PATTERN =
+  /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:com|net|org|io|co|me|app|ly|gg|info|biz|xyz|link|tv)\b/i;
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/i;
+const PHONE_PATTERN = /(?:\+\d{1,3}[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}\b|\+\d{1,3}[\s.-]?\d(?:[\s.-]?\d){6,13}\b/;
+
+// How the member is told what was wrong; rule names and patterns stay with the admins
+const matchDescriptions: Record<ScreeningRuleType, string> = {
+  keywords: "contains language that isn't allowed here",
+  regex: "contains content that isn't allowed here",
+  links: "contains a link",
+  contact_info: "appears to share contact details like an email address or phone number",
+};
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Admin-written patterns run in a separate context that V8 interrupts after this long, so a
+// pattern that slipped past isSafeScreeningRegex can't hold up the server
+const REGEX_RULE_TIMEOUT_MS = 50;
+const regexRuleContext = vm.createContext({});
+const regexRuleScript = new vm.Script("new RegExp(pattern, 'iu').test(content)");
+
+function testRegexRule(rule: ScreeningRule, pattern: string, content: string): boolean {
+  Object.assign(regexRuleContext, { pattern, content });
+  try {
+    return regexRuleScript.runInContext(regexRuleContext, { timeout: REGEX_RULE_TIMEOUT_MS }) === true;
+  } catch (error: any) {
+    const problem = error?.code === "ERR_SCRIPT_EXECUTION_TIMEOUT" ? "a pattern that took too long" : "an invalid pattern";
+    console.error(`[SCREENING] Skipping rule ${rule.id} with ${problem}`);
+    return false;
+  }
+}
+
+function matchesRule(rule: ScreeningRule, content: string): boolean {
+  switch (rule.type) {
+    case "keywords": {
+      const keywords = (rule.pattern ?? "")
+        .split(/[\n,]/)
+        .map((keyword) => keyword.trim())
+        .filter(Boolean);
+      // Whole words or phrases only, so "ass" doesn't match "class"
+      return keywords.some((keyword) =>
+        new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegex(keyword)}(?![\\p{L}\\p{N}])`, "iu").test(content),
+      );
+    }
+    case "regex":
+      // Rules saved before the safety check was added are skipped rather than risked
+      if (!rule.pattern || !isSafeScreeningRegex(rule.pattern)) {
+        console.error(`[SCREENING] Skipping rule ${rule.id} with an unsafe pattern`);
+        return false;
+      }
+      return testRegexRule(rule, rule.pattern, content);
+    case "links":
+      return LINK_PATTERN.test(content);
+    case "contact_info":
+      return EMAIL_PATTERN.test(content) || PHONE_PATTERN.test(content);
+  }
+}
+
+export interface ScreeningResult {
+  // The strictest action among the matching rules: block, then warn, then flag
+  action: ScreeningAction | null;
+  matches: ScreeningRule[];
+}
+
+const actionPrecedence: ScreeningAction[] = ["block", "warn", "flag"];
+
+export async function screenContent(content: string): Promise<ScreeningResult> {
+  const rules = await storage.getActiveScreeningRules();
+  // Messages are validated to this length already; the cap keeps matching cost bounded regardless
+  const screened = content.slice(0, MAX_MESSAGE_LENGTH);
+  const matches = rules.filter((rule) => matchesRule(rule, screened));
+  const action = actionPrecedence.find((candidate) => matches.some((rule) => rule.action === candidate)) ?? null;
+  return { action, matches };
+}
+
+/**
+ * Runs the active rules over a message about to be sent or saved. Blocking rules always
+ * stop it; warning rules stop it until the member confirms. Returns the rules that want
+ * the message flagged for review once it is stored.
+ */
+export async function enforceScreening(content: string, acknowledgeWarnings: boolean): Promise<ScreeningRule[]> {
+  const { action, matches } = await screenContent(content);
+  const describe = (ruleAction: ScreeningAction) =>
+    Array.from(new Set(matches.filter((rule) => rule.action === ruleAction).map((rule) => matchDescriptions[rule.type]))).join(" and ");
+
+  if (action === "block") {
+    throw new ScreeningError(`Your message can't be sent because it ${describe("block")}.`, 422, "block");
+  }
+  if (action === "warn" && !acknowledgeWarnings) {
+    throw new ScreeningError(`Your message ${describe("warn")}. Do you still want to send it?`, 409, "warn");
+  }
+  return matches.filter((rule) => rule.action === "flag");
+}
+
+// Files a pending report against the sender with the message attached, for admins to review
+export async function reportFlaggedMessage(message: Message, rules: ScreeningRule[]): Promise<Report> {
+  return await storage.createScreeningReport({
+    reportedUserId: message.senderId,
+    partnershipId: message.partnershipId,
+    messageId: message.id,
+    reason: "Automated screening",
+    description: `Flagged by ${rules.map((rule) => `"${rule.name}"`).join(", ")}`,
+  });
+}
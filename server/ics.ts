@@ -0,0 +1,103 @@
+// Minimal iCalendar (RFC 5545) writer for members' calendar subscription feeds
+
+export interface CalendarEvent {
+  uid: string;
+  summary: string;
+  description?: string | null;
+  start: Date;
+  durationMinutes: number;
+  // IANA timezone the event repeats in; null or unknown names fall back to UTC times
+  timezone: string | null;
+  // Set for weekly events, which repeat until this moment
+  weeklyUntil?: Date | null;
+  updatedAt: Date;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+// Long content lines are split into 75-octet chunks, continued with a leading space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join("\r\n ");
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+// Wall-clock time of `date` in `timezone`, or null when the timezone is not a valid IANA name
+function formatLocal(date: Date, timezone: string): string | null {
+  try {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone: timezone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    }).formatToParts(date);
+    const part = (type: string) => parts.find((entry) => entry.type === type)?.value ?? "00";
+    return `${part("year")}${part("month")}${part("day")}T${part("hour")}${part("minute")}${part("second")}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Weekly events are written with a TZID so they keep their local time across daylight
+ * saving changes. The IANA name is used without a VTIMEZONE block, which the common
+ * calendar apps resolve themselves.
+ */
+function eventLines(event: CalendarEvent): string[] {
+  const localStart = event.timezone ? formatLocal(event.start, event.timezone) : null;
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(event.updatedAt)}`,
+    localStart ? `DTSTART;TZID=${event.timezone}:${localStart}` : `DTSTART:${formatUtc(event.start)}`,
+    `DURATION:PT${event.durationMinutes}M`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (event.weeklyUntil) {
+    lines.push(`RRULE:FREQ=WEEKLY;UNTIL=${formatUtc(event.weeklyUntil)}`);
+  }
+  lines.push("END:VEVENT");
+  return lines;
+}
+
+export function buildCalendar(name: string, events: CalendarEvent[]): string {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Support Match//Partnership Meetings//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...events.flatMap(eventLines),
+    "END:VCALENDAR",
+  ];
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { validateConnection } from "./db";
+import { startScheduler } from "./scheduler";
 
 const app = express();
 app.use(express.json());
@@ -126,6 +127,9 @@ async function validateDatabaseAfterStartup(): Promise<void> {
     
     // Validate database connection after server starts (non-blocking)
     validateDatabaseAfterStartup();
+
+    // Background jobs: automatic match rounds and partnership expiry
+    startScheduler();
   });
 
   // Add error handling for server startup
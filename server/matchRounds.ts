@@ -0,0 +1,157 @@
+import {
+  getPartnershipMemberIds,
+  matchingOptionsSchema,
+  type MatchingOptions,
+  type MatchProposal,
+  type MatchProposalEdit,
+  type MatchRound,
+  type Partnership,
+  type ProposedPair,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { evaluateGroups, proposeMatches } from "./matching";
+import { partnershipPeriod } from "./partnerships";
+
+export class MatchRoundError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MatchRoundError";
+  }
+}
+
+export interface CommittedRound {
+  round: MatchRound;
+  partnerships: Partnership[];
+}
+
+async function requireDraftRound(roundId: string): Promise<MatchRound> {
+  const round = await storage.getMatchRound(roundId);
+  if (!round) {
+    throw new MatchRoundError("Match round not found", 404);
+  }
+  if (round.status !== "draft") {
+    throw new MatchRoundError(`Match round is already ${round.status}`, 409);
+  }
+  return round;
+}
+
+// Swapped pairs must pass the same checks, under the round's own options, as pairs the strategy proposed
+async function rebuildSwappedPairs(memberIdGroups: string[][], parameters: MatchingOptions): Promise<ProposedPair[]> {
+  const fits = await evaluateGroups(memberIdGroups, matchingOptionsSchema.parse(parameters));
+  return fits.map((fit) => {
+    if (!fit.compatible) {
+      throw new MatchRoundError(fit.problem);
+    }
+    return { ...fit.pair, reasons: [...fit.pair.reasons, "Manually adjusted by an admin"] };
+  });
+}
+
+export async function createDraftRound(options: MatchingOptions, createdBy: string | null): Promise<MatchRound> {
+  const proposal = await proposeMatches(options);
+  return await storage.createMatchRound(createdBy, options, proposal);
+}
+
+export async function editRoundProposal(roundId: string, edit: MatchProposalEdit): Promise<MatchRound> {
+  const round = await requireDraftRound(roundId);
+  const { pairs, unmatched } = round.proposal;
+
+  let proposal: MatchProposal;
+  if (edit.action === "remove") {
+    const removed = pairs[edit.pairIndex];
+    if (!removed) {
+      throw new MatchRoundError("Pair not found in this round");
+    }
+    proposal = {
+      ...round.proposal,
+      pairs: pairs.filter((_, index) => index !== edit.pairIndex),
+      unmatched: [
+        ...unmatched,
+        ...getPartnershipMemberIds(removed).map((userId) => ({
+          userId,
+          reason: "removed_by_admin" as const,
+          detail: "An admin adjusted this round's pairings. You'll be first in line for the next round.",
+        })),
+      ],
+    };
+  } else {
+    const pairA = pairs[edit.pairIndexA];
+    const pairB = pairs[edit.pairIndexB];
+    if (!pairA || !pairB || edit.pairIndexA === edit.pairIndexB) {
+      throw new MatchRoundError("Swaps need two different pairs from this round");
+    }
+    const membersA = getPartnershipMemberIds(pairA);
+    const membersB = getPartnershipMemberIds(pairB);
+    if (!membersA.includes(edit.memberA) || !membersB.includes(edit.memberB)) {
+      throw new MatchRoundError("Swapped members must belong to the selected pairs");
+    }
+
+    const swappedA = membersA.map((id) => (id === edit.memberA ? edit.memberB : id));
+    const swappedB = membersB.map((id) => (id === edit.memberB ? edit.memberA : id));
+    const [rebuiltA, rebuiltB] = await rebuildSwappedPairs([swappedA, swappedB], round.parameters);
+    proposal = {
+      ...round.proposal,
+      pairs: pairs.map((pair, index) => {
+        if (index === edit.pairIndexA) return rebuiltA;
+        if (index === edit.pairIndexB) return rebuiltB;
+        return pair;
+      }),
+    };
+  }
+
+  const updated = await storage.updateMatchRoundProposal(roundId, proposal);
+  if (!updated) {
+    throw new MatchRoundError("Match round is no longer a draft", 409);
+  }
+  return updated;
+}
+
+export async function commitRound(roundId: string, committedBy: string | null): Promise<CommittedRound> {
+  const round = await requireDraftRound(roundId);
+
+  // Members may have been paired manually or by another round since this draft was created
+  const activePartnerships = await storage.getActivePartnerships();
+  const partneredUserIds = new Set(activePartnerships.flatMap((partnership) => getPartnershipMemberIds(partnership)));
+  const unavailable = round.proposal.pairs
+    .flatMap((pair) => getPartnershipMemberIds(pair))
+    .filter((userId) => partneredUserIds.has(userId));
+  if (unavailable.length > 0) {
+    throw new MatchRoundError(
+      `${unavailable.length} proposed member(s) already have an active partnership. Create a new round to refresh the proposal.`,
+      409,
+    );
+  }
+
+  const { startDate, endDate } = partnershipPeriod();
+
+  const committed = await storage.commitMatchRound(roundId, committedBy, startDate, endDate);
+  if (!committed) {
+    // Still a draft means a proposed member was paired elsewhere after the check above
+    const current = await storage.getMatchRound(roundId);
+    throw new MatchRoundError(
+      current?.status === "draft"
+        ? "A proposed member was paired while committing. Create a new round to refresh the proposal."
+        : "Match round is no longer a draft",
+      409,
+    );
+  }
+
+  console.log(
+    `[Matching] Round ${roundId} committed: ${committed.partnerships.length} partnerships from ${round.proposal.candidateCount} candidates, ${round.proposal.unmatched.length} waitlisted`,
+  );
+  return committed;
+}
+
+export async function cancelRound(roundId: string): Promise<MatchRound> {
+  await requireDraftRound(roundId);
+  const cancelled = await storage.cancelMatchRound(roundId);
+  if (!cancelled) {
+    throw new MatchRoundError("Match round is no longer a draft", 409);
+  }
+  return cancelled;
+}
+
+// Unattended run used by the scheduler: draft a round and commit it unchanged
+export async function runMatchRound(options: MatchingOptions, createdBy: string | null): Promise<CommittedRound> {
+  const draft = await createDraftRound(options, createdBy);
+  return await commitRound(draft.id, createdBy);
+}
@@ -0,0 +1,61 @@
+import {
+  getPartnershipMemberIds,
+  isMatchingPaused,
+  type User,
+  type MatchingOptions,
+  type MatchProposal,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getMatchingStrategy } from "./matchingStrategies";
+import { evaluateGroup, type GroupFit } from "./matchingGraph";
+
+// Active, unpaused users without an active partnership are eligible for a new match
+export async function getAvailableUsers(): Promise<User[]> {
+  const activeUsers = (await storage.getAllUsers()).filter((user) => user.isActive && !isMatchingPaused(user));
+  const activePartnerships = await storage.getActivePartnerships();
+
+  const partneredUserIds = new Set<string>();
+  for (const partnership of activePartnerships) {
+    for (const memberId of getPartnershipMemberIds(partnership)) {
+      partneredUserIds.add(memberId);
+    }
+  }
+
+  return activeUsers.filter((user) => !partneredUserIds.has(user.id));
+}
+
+// Checks hand-picked groups against current exclusions, history and feedback, in one read of each
+export async function evaluateGroups(memberIdGroups: string[][], options: MatchingOptions): Promise<GroupFit[]> {
+  const users = new Map((await storage.getAllUsers()).map((user) => [user.id, user]));
+  const context = {
+    exclusions: await storage.getAllExclusions(),
+    history: await storage.getAllPartnerships(),
+    feedback: await storage.getAllPartnershipFeedback(),
+    options,
+  };
+  return memberIdGroups.map((memberIds) => {
+    const members = memberIds.map((id) => users.get(id));
+    if (members.some((member) => !member)) {
+      return { compatible: false, problem: "A member of this group no longer exists" };
+    }
+    return evaluateGroup(members as User[], context);
+  });
+}
+
+// Gathers the current pool from storage and computes a proposal without persisting anything
+export async function proposeMatches(options: MatchingOptions): Promise<MatchProposal> {
+  const availableUsers = await getAvailableUsers();
+  const exclusions = await storage.getAllExclusions();
+  const history = await storage.getAllPartnerships();
+  const feedback = await storage.getAllPartnershipFeedback();
+  const waitlist = await storage.getActiveWaitlist();
+
+  return getMatchingStrategy(options.strategy).propose({
+    candidates: availableUsers,
+    exclusions,
+    history,
+    feedback,
+    priorityUserIds: new Set(waitlist.map((entry) => entry.userId)),
+    options,
+  });
+}
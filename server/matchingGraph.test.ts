@@ -0,0 +1,302 @@
+import { describe, expect, it } from "vitest";
+import { getPartnershipMemberIds, matchingOptionsSchema, type MatchingOptions, type MatchProposal, type User } from "@shared/schema";
+import { buildCompatibilityGraph, buildProposal, evaluateGroup, maximumMatching, type CompatibilityGraph, type MatchingInput } from "./matchingGraph";
+import { makeExclusion, makeFeedback, makePartnership, makeUser } from "./testFixtures";
+
+function matchingInput(candidates: User[], overrides: Partial<Omit<MatchingInput, "options">> = {}, options: Partial<MatchingOptions> = {}): MatchingInput {
+  return {
+    candidates,
+    exclusions: [],
+    history: [],
+    feedback: [],
+    priorityUserIds: new Set(),
+    ...overrides,
+    options: matchingOptionsSchema.parse(options),
+  };
+}
+
+function indexOf(graph: CompatibilityGraph, userId: string): number {
+  return graph.users.findIndex((user) => user.id === userId);
+}
+
+function canPair(graph: CompatibilityGraph, a: string, b: string): boolean {
+  return graph.score(indexOf(graph, a), indexOf(graph, b)) !== undefined;
+}
+
+// Seeded so a failing graph can be reproduced
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomGraph(n: number, density: number, next: () => number): number[][] {
+  const adjacency: number[][] = Array.from({ length: n }, () => []);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      if (next() < density) {
+        adjacency[i].push(j);
+        adjacency[j].push(i);
+      }
+    }
+  }
+  return adjacency;
+}
+
+function bruteForceMatchingSize(adjacency: number[][]): number {
+  const matched = new Array(adjacency.length).fill(false);
+  const search = (from: number): number => {
+    let i = from;
+    while (i < adjacency.length && matched[i]) i++;
+    if (i >= adjacency.length) return 0;
+    matched[i] = true;
+    let best = search(i + 1);
+    for (const j of adjacency[i]) {
+      if (matched[j]) continue;
+      matched[j] = true;
+      best = Math.max(best, 1 + search(i + 1));
+      matched[j] = false;
+    }
+    matched[i] = false;
+    return best;
+  };
+  return search(0);
+}
+
+function expectValidMatching(adjacency: number[][], match: number[]): number {
+  let pairs = 0;
+  match.forEach((partner, i) => {
+    if (partner === -1) return;
+    expect(match[partner]).toBe(i);
+    expect(adjacency[i]).toContain(partner);
+    if (i < partner) pairs++;
+  });
+  return pairs;
+}
+
+describe("maximumMatching", () => {
+  it("augments through an odd cycle", () => {
+    // 1=2 and 3=4 are matched and 2-4 closes the cycle 0-1-2-4-3; from 0 the only augmenting
+    // path leaves the cycle at 3, which plain alternating search reaches on the wrong parity
+    const adjacency = [[1, 3], [0, 2], [1, 4], [0, 4, 5], [3, 2], [3]];
+    const match = maximumMatching(adjacency, [-1, 2, 1, 4, 3, -1]);
+    expect(expectValidMatching(adjacency, match)).toBe(3);
+  });
+
+  it("finds a maximum matching on random graphs", () => {
+    const next = random(42);
+    for (let run = 0; run < 200; run++) {
+      const adjacency = randomGraph(2 + Math.floor(next() * 11), 0.1 + next() * 0.5, next);
+      const match = maximumMatching(adjacency);
+      expect(expectValidMatching(adjacency, match)).toBe(bruteForceMatchingSize(adjacency));
+    }
+  });
+
+  it("extends an initial matching without unmatching anyone", () => {
+    const next = random(7);
+    for (let run = 0; run < 200; run++) {
+      const adjacency = randomGraph(2 + Math.floor(next() * 11), 0.2 + next() * 0.5, next);
+      // Seed with a maximum matching of a random subgraph, as the scored strategy's passes do
+      const subgraph = adjacency.map((neighbours, i) => neighbours.filter((j) => (i + j) % 3 !== 0));
+      const initial = maximumMatching(subgraph);
+      const match = maximumMatching(adjacency, initial);
+      expect(expectValidMatching(adjacency, match)).toBe(bruteForceMatchingSize(adjacency));
+      initial.forEach((partner, i) => {
+        if (partner !== -1) expect(match[i]).not.toBe(-1);
+      });
+    }
+  });
+});
+
+describe("buildCompatibilityGraph", () => {
+  it("only pairs members of the same gender by default", () => {
+    const graph = buildCompatibilityGraph(
+      matchingInput([
+        makeUser("man", { gender: "male" }),
+        makeUser("other-man", { gender: "male" }),
+        makeUser("woman", { gender: "female" }),
+        makeUser("unset"),
+        makeUser("private", { gender: "prefer_not_to_say" }),
+      ]),
+    );
+    expect(canPair(graph, "man", "other-man")).toBe(true);
+    expect(canPair(graph, "man", "woman")).toBe(false);
+    // A missing gender counts as prefer_not_to_say
+    expect(canPair(graph, "unset", "private")).toBe(true);
+    expect(canPair(graph, "unset", "man")).toBe(false);
+  });
+
+  it("requires both members to accept each other's gender", () => {
+    const graph = buildCompatibilityGraph(
+      matchingInput([
+        makeUser("open-man", { gender: "male", matchPreference: "any_gender" }),
+        makeUser("same-man", { gender: "male" }),
+        makeUser("woman-for-men", { gender: "female", matchPreference: "specific", matchGenders: ["male"] }),
+        makeUser("open-woman", { gender: "female", matchPreference: "any_gender" }),
+      ]),
+    );
+    expect(canPair(graph, "open-man", "woman-for-men")).toBe(true);
+    expect(canPair(graph, "same-man", "woman-for-men")).toBe(false);
+    expect(canPair(graph, "woman-for-men", "open-woman")).toBe(false);
+    expect(canPair(graph, "open-man", "open-woman")).toBe(true);
+  });
+
+  it("blocks exclusions in both directions", () => {
+    const graph = buildCompatibilityGraph(
+      matchingInput([makeUser("a"), makeUser("b"), makeUser("c")], { exclusions: [makeExclusion("a", "b")] }),
+    );
+    expect(canPair(graph, "a", "b")).toBe(false);
+    expect(canPair(graph, "b", "a")).toBe(false);
+    expect(canPair(graph, "a", "c")).toBe(true);
+  });
+
+  it("never re-pairs members who both rated a past partnership poorly", () => {
+    const history = [makePartnership("ab", ["a", "b"]), makePartnership("cd", ["c", "d"])];
+    const feedback = [
+      makeFeedback("ab", "a", 2, false),
+      makeFeedback("ab", "b", 1, true),
+      // Only one side unhappy: still allowed
+      makeFeedback("cd", "c", 1, false),
+      makeFeedback("cd", "d", 4, true),
+    ];
+    const graph = buildCompatibilityGraph(
+      matchingInput([makeUser("a"), makeUser("b"), makeUser("c"), makeUser("d")], { history, feedback }),
+    );
+    expect(canPair(graph, "a", "b")).toBe(false);
+    expect(canPair(graph, "c", "d")).toBe(true);
+  });
+
+  it("keeps partners within the round's timezone gap, measured around the clock", () => {
+    const graph = buildCompatibilityGraph(
+      matchingInput(
+        [
+          makeUser("utc", { timezone: "Etc/UTC" }),
+          makeUser("tokyo", { timezone: "Etc/GMT-9" }),
+          makeUser("utc-plus-12", { timezone: "Etc/GMT-12" }),
+          makeUser("utc-minus-11", { timezone: "Etc/GMT+11" }),
+          makeUser("unknown"),
+        ],
+        {},
+        { maxTimezoneOffsetHours: 6 },
+      ),
+    );
+    expect(canPair(graph, "utc", "tokyo")).toBe(false);
+    expect(canPair(graph, "utc-plus-12", "utc-minus-11")).toBe(true);
+    // Members without a timezone aren't held to the gap
+    expect(canPair(graph, "utc", "unknown")).toBe(true);
+  });
+
+  it("puts priority members first", () => {
+    for (let run = 0; run < 20; run++) {
+      const graph = buildCompatibilityGraph(
+        matchingInput([makeUser("a"), makeUser("b"), makeUser("waiting"), makeUser("c")], { priorityUserIds: new Set(["waiting"]) }),
+      );
+      expect(graph.users[0].id).toBe("waiting");
+    }
+  });
+});
+
+describe("buildProposal", () => {
+  // Members are ordered by their shuffled graph position, so groups are compared sorted
+  function groupWith(proposal: MatchProposal, userId: string): string[] | undefined {
+    return proposal.pairs.map((pair) => getPartnershipMemberIds(pair).sort()).find((memberIds) => memberIds.includes(userId));
+  }
+
+  // Pairs the listed members exactly, leaving everyone else unmatched
+  function matchOf(graph: CompatibilityGraph, pairs: [string, string][]): number[] {
+    const match = new Array(graph.users.length).fill(-1);
+    for (const [a, b] of pairs) {
+      match[indexOf(graph, a)] = indexOf(graph, b);
+      match[indexOf(graph, b)] = indexOf(graph, a);
+    }
+    return match;
+  }
+
+  it("waitlists the odd member out of a full pool", () => {
+    const input = matchingInput([makeUser("a"), makeUser("b"), makeUser("c")], {}, { oddPoolPolicy: "waitlist" });
+    const graph = buildCompatibilityGraph(input);
+    const proposal = buildProposal(graph, matchOf(graph, [["a", "b"]]), input.options);
+    expect(proposal.pairs).toHaveLength(1);
+    expect(proposal.unmatched).toEqual([expect.objectContaining({ userId: "c", reason: "pool_exhausted" })]);
+  });
+
+  it("tells members with no compatible partner why they were left out", () => {
+    const input = matchingInput(
+      [makeUser("a"), makeUser("b"), makeUser("woman", { gender: "female" })],
+      {},
+      { oddPoolPolicy: "triad" },
+    );
+    const graph = buildCompatibilityGraph(input);
+    const proposal = buildProposal(graph, matchOf(graph, [["a", "b"]]), input.options);
+    expect(proposal.pairs).toEqual([expect.not.objectContaining({ user3Id: expect.anything() })]);
+    expect(proposal.unmatched).toEqual([expect.objectContaining({ userId: "woman", reason: "no_compatible_partner" })]);
+  });
+
+  it("adds the odd member to a pair as a triad", () => {
+    const input = matchingInput([makeUser("a"), makeUser("b"), makeUser("c")], {}, { oddPoolPolicy: "triad" });
+    const graph = buildCompatibilityGraph(input);
+    const proposal = buildProposal(graph, matchOf(graph, [["a", "b"]]), input.options);
+    expect(proposal.unmatched).toEqual([]);
+    expect(proposal.pairs).toHaveLength(1);
+    expect(groupWith(proposal, "c")).toEqual(["a", "b", "c"]);
+    expect(proposal.pairs[0].reasons).toContain("Triad formed so an odd pool member was not left out");
+  });
+
+  it("only forms triads with pairs compatible with the odd member", () => {
+    const input = matchingInput(
+      [makeUser("a"), makeUser("b"), makeUser("c"), makeUser("d"), makeUser("e")],
+      { exclusions: [makeExclusion("e", "a")] },
+      { oddPoolPolicy: "triad" },
+    );
+    const graph = buildCompatibilityGraph(input);
+    const proposal = buildProposal(graph, matchOf(graph, [["a", "b"], ["c", "d"]]), input.options);
+    expect(groupWith(proposal, "e")).toEqual(["c", "d", "e"]);
+  });
+
+  it("prefers a triad without recent partners over a better-scoring one", () => {
+    const input = matchingInput(
+      [
+        makeUser("a", { timezone: "Etc/UTC" }),
+        makeUser("b", { timezone: "Etc/UTC" }),
+        makeUser("c", { timezone: "Etc/GMT-3" }),
+        makeUser("d", { timezone: "Etc/GMT-3" }),
+        makeUser("e", { timezone: "Etc/UTC" }),
+      ],
+      { history: [makePartnership("ea", ["e", "a"])] },
+      { oddPoolPolicy: "triad" },
+    );
+    const graph = buildCompatibilityGraph(input);
+    const proposal = buildProposal(graph, matchOf(graph, [["a", "b"], ["c", "d"]]), input.options);
+    expect(groupWith(proposal, "e")).toEqual(["c", "d", "e"]);
+  });
+
+  it("scores a group by its weakest pairing", () => {
+    const input = matchingInput(
+      [makeUser("a", { timezone: "Etc/UTC" }), makeUser("b", { timezone: "Etc/UTC" }), makeUser("c", { timezone: "Etc/GMT-6" })],
+      {},
+      { oddPoolPolicy: "triad" },
+    );
+    const graph = buildCompatibilityGraph(input);
+    const proposal = buildProposal(graph, matchOf(graph, [["a", "b"]]), input.options);
+    expect(proposal.pairs[0].score).toBe(0.5);
+  });
+});
+
+describe("evaluateGroup", () => {
+  it("applies the same hard constraints as the graph", () => {
+    const context = {
+      exclusions: [makeExclusion("a", "c")],
+      history: [makePartnership("ab", ["a", "b"])],
+      feedback: [makeFeedback("ab", "a", 1, false), makeFeedback("ab", "b", 2, false)],
+      options: matchingOptionsSchema.parse({}),
+    };
+    const a = makeUser("a");
+    expect(evaluateGroup([a, makeUser("b")], context)).toEqual({ compatible: false, problem: expect.stringContaining("rated a past partnership") });
+    expect(evaluateGroup([a, makeUser("c")], context)).toEqual({ compatible: false, problem: expect.stringContaining("excluded") });
+    expect(evaluateGroup([a, makeUser("d", { gender: "female" })], context)).toEqual({ compatible: false, problem: expect.stringContaining("gender") });
+    expect(evaluateGroup([a, makeUser("d")], context)).toEqual({ compatible: true, pair: expect.objectContaining({ user1Id: "a", user2Id: "d" }) });
+  });
+});
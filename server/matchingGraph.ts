@@ -0,0 +1,540 @@
+import {
+  availabilityWindows,
+  getPartnershipMemberIds,
+  type AvailabilityWindow,
+  type User,
+  type Exclusion,
+  type Partnership,
+  type PartnershipFeedback,
+  type MatchingOptions,
+  type MatchProposal,
+  type ProposedPair,
+  type UnmatchedUser,
+} from "@shared/schema";
+
+export interface MatchingInput {
+  candidates: User[];
+  exclusions: Exclusion[];
+  history: Partnership[];
+  // End-of-partnership surveys, matched to `history` by partnership id
+  feedback: PartnershipFeedback[];
+  // Waitlisted members are considered first so they are paired whenever possible
+  priorityUserIds: Set<string>;
+  options: MatchingOptions;
+}
+
+// Members without a gender are treated as "prefer_not_to_say", so "same gender" pairs
+// them only with others who also chose not to say
+function genderOf(user: User): NonNullable<User["gender"]> {
+  return user.gender || "prefer_not_to_say";
+}
+
+function acceptsPartner(user: User, partner: User): boolean {
+  switch (user.matchPreference) {
+    case "any_gender":
+      return true;
+    case "specific":
+      return (user.matchGenders ?? []).includes(genderOf(partner));
+    default:
+      return genderOf(user) === genderOf(partner);
+  }
+}
+
+// Gender preferences are a mutual constraint: both members must accept each other
+function gendersCompatible(a: User, b: User): boolean {
+  return acceptsPartner(a, b) && acceptsPartner(b, a);
+}
+
+function describeGenderFit(a: User, b: User): string {
+  if (genderOf(a) === genderOf(b)) {
+    return `Same gender (${genderOf(a)})`;
+  }
+  return "Both members' gender preferences are met";
+}
+
+export function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+interface SchedulingProfile {
+  utcOffset: number | null;
+  // Hours of the UTC day covered by the member's declared availability
+  availableUtcHours: Set<number> | null;
+}
+
+// Current UTC offset in hours, or null when the timezone is missing or not a valid IANA name
+function utcOffsetHours(timezone: string | null, at: Date): number | null {
+  if (!timezone) return null;
+  try {
+    const offsetName = new Intl.DateTimeFormat("en-US", { timeZone: timezone, timeZoneName: "longOffset" })
+      .formatToParts(at)
+      .find((part) => part.type === "timeZoneName")?.value;
+    if (!offsetName) return null;
+    const match = offsetName.match(/GMT([+-])(\d{2}):(\d{2})/);
+    if (!match) return 0; // Plain "GMT"
+    const hours = Number(match[2]) + Number(match[3]) / 60;
+    return match[1] === "-" ? -hours : hours;
+  } catch {
+    return null;
+  }
+}
+
+function buildSchedulingProfile(user: User, at: Date): SchedulingProfile {
+  const utcOffset = utcOffsetHours(user.timezone, at);
+  const windows = (user.availability ?? []).filter((key): key is AvailabilityWindow => key in availabilityWindows);
+  if (utcOffset === null || windows.length === 0) {
+    return { utcOffset, availableUtcHours: null };
+  }
+
+  const availableUtcHours = new Set<number>();
+  for (const key of windows) {
+    const { start, end } = availabilityWindows[key];
+    for (let hour = start; hour < end; hour++) {
+      availableUtcHours.add(((Math.floor(hour - utcOffset) % 24) + 24) % 24);
+    }
+  }
+  return { utcOffset, availableUtcHours };
+}
+
+// Distance between two offsets on a 24 hour clock, so UTC+13 and UTC-10 are one hour apart
+function clockDistance(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 24;
+  return Math.min(difference, 24 - difference);
+}
+
+/**
+ * Scores how easily two members can meet, from 0 (hard) to 1 (easy). Timezone closeness
+ * always counts when both timezones are known; availability overlap counts when both
+ * members declared windows. Pairs with no scheduling information score a neutral 0.5.
+ */
+function schedulingScore(a: SchedulingProfile, b: SchedulingProfile): number {
+  const components: number[] = [];
+  if (a.utcOffset !== null && b.utcOffset !== null) {
+    components.push(1 - clockDistance(a.utcOffset, b.utcOffset) / 12);
+  }
+  if (a.availableUtcHours && b.availableUtcHours) {
+    const shared = Array.from(a.availableUtcHours).filter((hour) => b.availableUtcHours!.has(hour)).length;
+    components.push(shared / Math.min(a.availableUtcHours.size, b.availableUtcHours.size));
+  }
+  if (components.length === 0) return 0.5;
+  return components.reduce((sum, value) => sum + value, 0) / components.length;
+}
+
+function describeSchedulingFit(a: SchedulingProfile, b: SchedulingProfile): string {
+  if (a.utcOffset === null || b.utcOffset === null) {
+    return "Timezone not set for a member";
+  }
+  const distance = clockDistance(a.utcOffset, b.utcOffset);
+  const timezoneFit = distance === 0 ? "Same timezone offset" : `Timezones ${distance}h apart`;
+  if (!a.availableUtcHours || !b.availableUtcHours) return timezoneFit;
+  const sharedHours = Array.from(a.availableUtcHours).filter((hour) => b.availableUtcHours!.has(hour)).length;
+  return `${timezoneFit}, ${sharedHours}h of shared availability per day`;
+}
+
+// Exclusions are one-directional in storage but block matching in both directions
+function buildExclusionLookup(exclusions: Exclusion[]): Set<string> {
+  const lookup = new Set<string>();
+  for (const exclusion of exclusions) {
+    lookup.add(`${exclusion.userId}:${exclusion.excludedUserId}`);
+    lookup.add(`${exclusion.excludedUserId}:${exclusion.userId}`);
+  }
+  return lookup;
+}
+
+// Maps each user to the partners from their most recent `lookback` partnerships
+function buildRecentPartnerLookup(history: Partnership[], lookback: number): Map<string, Set<string>> {
+  const recentPartners = new Map<string, Set<string>>();
+  if (lookback <= 0) return recentPartners;
+
+  const newestFirst = [...history].sort(
+    (a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime(),
+  );
+  const seenCount = new Map<string, number>();
+  const record = (userId: string, partnerId: string) => {
+    const count = seenCount.get(userId) ?? 0;
+    if (count >= lookback) return;
+    seenCount.set(userId, count + 1);
+    if (!recentPartners.has(userId)) recentPartners.set(userId, new Set());
+    recentPartners.get(userId)!.add(partnerId);
+  };
+
+  for (const partnership of newestFirst) {
+    const memberIds = getPartnershipMemberIds(partnership);
+    for (const userId of memberIds) {
+      for (const partnerId of memberIds) {
+        if (userId !== partnerId) record(userId, partnerId);
+      }
+    }
+  }
+  return recentPartners;
+}
+
+// Ratings at or below this count as a poor partnership
+const POOR_RATING = 2;
+
+interface FeedbackLookup {
+  // Pairs who both rated a shared partnership poorly are never matched again
+  bothPoor: Set<string>;
+  // Pairs who both said they would match again are preferred and exempt from repeat avoidance
+  bothWelcome: Set<string>;
+}
+
+function buildFeedbackLookup(history: Partnership[], feedback: PartnershipFeedback[]): FeedbackLookup {
+  const lookup: FeedbackLookup = { bothPoor: new Set(), bothWelcome: new Set() };
+  const byPartnership = new Map<string, Map<string, PartnershipFeedback>>();
+  for (const entry of feedback) {
+    if (!byPartnership.has(entry.partnershipId)) byPartnership.set(entry.partnershipId, new Map());
+    byPartnership.get(entry.partnershipId)!.set(entry.userId, entry);
+  }
+
+  for (const partnership of history) {
+    const responses = byPartnership.get(partnership.id);
+    if (!responses) continue;
+    const memberIds = getPartnershipMemberIds(partnership);
+    for (const userId of memberIds) {
+      for (const partnerId of memberIds) {
+        const mine = responses.get(userId);
+        const theirs = responses.get(partnerId);
+        if (userId === partnerId || !mine || !theirs) continue;
+        if (mine.rating <= POOR_RATING && theirs.rating <= POOR_RATING) {
+          lookup.bothPoor.add(`${userId}:${partnerId}`);
+        }
+        if (mine.wouldMatchAgain && theirs.wouldMatchAgain) {
+          lookup.bothWelcome.add(`${userId}:${partnerId}`);
+        }
+      }
+    }
+  }
+
+  // A poor partnership outweighs an earlier good one
+  lookup.bothPoor.forEach((key) => lookup.bothWelcome.delete(key));
+  return lookup;
+}
+
+interface PairingRules {
+  excluded: Set<string>;
+  bothPoor: Set<string>;
+  options: MatchingOptions;
+}
+
+// Why two members can never be paired under the round's options, or null when they can
+function pairingProblem(a: User, b: User, profileA: SchedulingProfile, profileB: SchedulingProfile, rules: PairingRules): string | null {
+  if (!gendersCompatible(a, b)) return "their gender preferences don't match";
+  if (rules.excluded.has(`${a.id}:${b.id}`)) return "one has excluded the other";
+  if (rules.bothPoor.has(`${a.id}:${b.id}`)) return "they both rated a past partnership together poorly";
+  if (
+    profileA.utcOffset !== null &&
+    profileB.utcOffset !== null &&
+    clockDistance(profileA.utcOffset, profileB.utcOffset) > rules.options.maxTimezoneOffsetHours
+  ) {
+    return `their timezones are more than ${rules.options.maxTimezoneOffsetHours}h apart`;
+  }
+  return null;
+}
+
+export type GroupFit = { compatible: true; pair: ProposedPair } | { compatible: false; problem: string };
+
+/**
+ * Checks a hand-picked pair or triad, such as an admin's swap, against the rules a
+ * matching run applies, and scores it the same way. Recent repeats are allowed but noted.
+ */
+export function evaluateGroup(members: User[], input: Omit<MatchingInput, "candidates" | "priorityUserIds">): GroupFit {
+  const now = new Date();
+  const profiles = members.map((user) => buildSchedulingProfile(user, now));
+  const { bothPoor, bothWelcome } = buildFeedbackLookup(input.history, input.feedback);
+  const rules: PairingRules = { excluded: buildExclusionLookup(input.exclusions), bothPoor, options: input.options };
+  const recentPartners = buildRecentPartnerLookup(input.history, input.options.repeatLookbackRounds);
+
+  const edgeScores: number[] = [];
+  let recentRepeat = false;
+  for (let i = 0; i < members.length; i++) {
+    for (let j = i + 1; j < members.length; j++) {
+      const problem = pairingProblem(members[i], members[j], profiles[i], profiles[j], rules);
+      if (problem) {
+        const names = [members[i], members[j]].map((user) => user.name || user.email || "A member").join(" and ");
+        return { compatible: false, problem: `${names} can't be paired: ${problem}` };
+      }
+      edgeScores.push(schedulingScore(profiles[i], profiles[j]));
+      const [a, b] = [members[i].id, members[j].id];
+      if (!bothWelcome.has(`${a}:${b}`) && (recentPartners.get(a)?.has(b) || recentPartners.get(b)?.has(a))) {
+        recentRepeat = true;
+      }
+    }
+  }
+
+  const reasons = [
+    describeGenderFit(members[0], members[1]),
+    "No exclusions between members",
+    describeSchedulingFit(profiles[0], profiles[1]),
+  ];
+  if (recentRepeat) {
+    reasons.push("Repeat of a recent partnership");
+  }
+  const [user1Id, user2Id, user3Id] = members.map((user) => user.id);
+  return {
+    compatible: true,
+    pair: {
+      user1Id,
+      user2Id,
+      ...(user3Id ? { user3Id } : {}),
+      score: Math.round(Math.min(...edgeScores) * 100) / 100,
+      reasons,
+    },
+  };
+}
+
+/**
+ * Edmonds' blossom algorithm for maximum cardinality matching in a general graph.
+ * Augmentation never unmatches a vertex, so passing the result of a run over a
+ * subgraph as `initialMatch` keeps those pairs unless they block a larger matching.
+ * Returns match[v] = partner index, or -1 when v is unmatched.
+ */
+export function maximumMatching(adjacency: number[][], initialMatch?: number[]): number[] {
+  const n = adjacency.length;
+  const match: number[] = initialMatch ? [...initialMatch] : new Array(n).fill(-1);
+  const parent: number[] = new Array(n).fill(-1);
+  const base: number[] = new Array(n).fill(0);
+  const used: boolean[] = new Array(n).fill(false);
+  const blossom: boolean[] = new Array(n).fill(false);
+
+  const lowestCommonAncestor = (a: number, b: number): number => {
+    const visited: boolean[] = new Array(n).fill(false);
+    for (;;) {
+      a = base[a];
+      visited[a] = true;
+      if (match[a] === -1) break;
+      a = parent[match[a]];
+    }
+    for (;;) {
+      b = base[b];
+      if (visited[b]) return b;
+      b = parent[match[b]];
+    }
+  };
+
+  const markPath = (v: number, blossomBase: number, child: number) => {
+    while (base[v] !== blossomBase) {
+      blossom[base[v]] = true;
+      blossom[base[match[v]]] = true;
+      parent[v] = child;
+      child = match[v];
+      v = parent[match[v]];
+    }
+  };
+
+  const findAugmentingPath = (root: number): number => {
+    used.fill(false);
+    parent.fill(-1);
+    for (let i = 0; i < n; i++) base[i] = i;
+
+    used[root] = true;
+    const queue = [root];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      for (const to of adjacency[v]) {
+        if (base[v] === base[to] || match[v] === to) continue;
+
+        if (to === root || (match[to] !== -1 && parent[match[to]] !== -1)) {
+          // Odd cycle found - contract the blossom onto its base
+          const blossomBase = lowestCommonAncestor(v, to);
+          blossom.fill(false);
+          markPath(v, blossomBase, to);
+          markPath(to, blossomBase, v);
+          for (let i = 0; i < n; i++) {
+            if (blossom[base[i]]) {
+              base[i] = blossomBase;
+              if (!used[i]) {
+                used[i] = true;
+                queue.push(i);
+              }
+            }
+          }
+        } else if (parent[to] === -1) {
+          parent[to] = v;
+          if (match[to] === -1) return to;
+          used[match[to]] = true;
+          queue.push(match[to]);
+        }
+      }
+    }
+    return -1;
+  };
+
+  // Greedy seed keeps the number of augmentations small
+  for (let v = 0; v < n; v++) {
+    if (match[v] !== -1) continue;
+    const partner = adjacency[v].find((u) => match[u] === -1);
+    if (partner !== undefined) {
+      match[v] = partner;
+      match[partner] = v;
+    }
+  }
+
+  for (let root = 0; root < n; root++) {
+    if (match[root] !== -1) continue;
+    let v = findAugmentingPath(root);
+    while (v !== -1) {
+      const previous = parent[v];
+      const next = match[previous];
+      match[v] = previous;
+      match[previous] = v;
+      v = next;
+    }
+  }
+
+  return match;
+}
+
+/**
+ * The hard constraints of a round as a graph over the candidates. Two members share an
+ * edge only when both accept each other's gender, neither excluded the other, they did
+ * not both rate a past partnership together poorly, and their timezones are within the
+ * round's maximum difference. Every edge carries a scheduling score; strategies decide
+ * how (or whether) to use scores, recent-partner history and past partners who both
+ * asked to be matched again.
+ */
+export interface CompatibilityGraph {
+  // Priority members first, each group shuffled so ties are broken randomly each round
+  users: User[];
+  // Undefined when the two members cannot be paired
+  score(i: number, j: number): number | undefined;
+  isRecentRepeat(i: number, j: number): boolean;
+  // Past partners who both said they would match again; never counted as a recent repeat
+  isWelcomeRepeat(i: number, j: number): boolean;
+  // Neighbour lists restricted to edges passing `include`, best-scoring first or shuffled
+  adjacency(include?: (i: number, j: number) => boolean, order?: "score" | "random"): number[][];
+  describe(i: number, j: number): string[];
+}
+
+export function buildCompatibilityGraph(input: MatchingInput): CompatibilityGraph {
+  const { candidates, exclusions, history, feedback, priorityUserIds, options } = input;
+  // Priority members go first: seeding and augmentation visit vertices in index order
+  const users = [
+    ...shuffle(candidates.filter((user) => priorityUserIds.has(user.id))),
+    ...shuffle(candidates.filter((user) => !priorityUserIds.has(user.id))),
+  ];
+  const recentPartners = buildRecentPartnerLookup(history, options.repeatLookbackRounds);
+  const { bothPoor, bothWelcome } = buildFeedbackLookup(history, feedback);
+  const rules: PairingRules = { excluded: buildExclusionLookup(exclusions), bothPoor, options };
+  const now = new Date();
+  const profiles = users.map((user) => buildSchedulingProfile(user, now));
+
+  const scores = new Map<string, number>();
+  for (let i = 0; i < users.length; i++) {
+    for (let j = i + 1; j < users.length; j++) {
+      if (pairingProblem(users[i], users[j], profiles[i], profiles[j], rules)) continue;
+      const pairScore = schedulingScore(profiles[i], profiles[j]);
+      scores.set(`${i}:${j}`, pairScore);
+      scores.set(`${j}:${i}`, pairScore);
+    }
+  }
+
+  const score = (i: number, j: number) => scores.get(`${i}:${j}`);
+  const isWelcomeRepeat = (i: number, j: number) => bothWelcome.has(`${users[i].id}:${users[j].id}`);
+  const isRecentRepeat = (i: number, j: number) =>
+    !isWelcomeRepeat(i, j) &&
+    (!!recentPartners.get(users[i].id)?.has(users[j].id) || !!recentPartners.get(users[j].id)?.has(users[i].id));
+
+  return {
+    users,
+    score,
+    isRecentRepeat,
+    isWelcomeRepeat,
+    adjacency: (include = () => true, order = "score") =>
+      users.map((_, i) => {
+        const neighbours = users
+          .map((_, j) => j)
+          .filter((j) => j !== i && score(i, j) !== undefined && include(i, j));
+        return order === "random" ? shuffle(neighbours) : neighbours.sort((a, b) => score(i, b)! - score(i, a)!);
+      }),
+    describe: (i, j) => {
+      const reasons = [
+        describeGenderFit(users[i], users[j]),
+        "No exclusions between members",
+        describeSchedulingFit(profiles[i], profiles[j]),
+      ];
+      if (isWelcomeRepeat(i, j)) {
+        reasons.push("Past partners who both asked to be matched again");
+      }
+      return reasons;
+    },
+  };
+}
+
+/**
+ * Turns a matching over the graph into a proposal. With the "triad" odd pool policy,
+ * leftover members join the best-scoring pair compatible with both, preferring pairs
+ * they have not recently been matched with.
+ */
+export function buildProposal(
+  graph: CompatibilityGraph,
+  match: number[],
+  options: MatchingOptions,
+  repeatReason = "Repeat of a recent partnership",
+): MatchProposal {
+  const { users, score, isRecentRepeat } = graph;
+
+  const groups: number[][] = [];
+  const leftover: number[] = [];
+  for (let i = 0; i < users.length; i++) {
+    if (match[i] === -1) leftover.push(i);
+    else if (i < match[i]) groups.push([i, match[i]]);
+  }
+
+  const unmatchedIndexes: number[] = [];
+  for (const i of leftover) {
+    if (options.oddPoolPolicy !== "triad") {
+      unmatchedIndexes.push(i);
+      continue;
+    }
+    const groupScore = (group: number[]) => Math.min(...group.map((j) => score(i, j)!));
+    const joinable = groups
+      .filter((group) => group.length === 2 && group.every((j) => score(i, j) !== undefined))
+      .sort((a, b) => groupScore(b) - groupScore(a));
+    const triad = joinable.find((group) => group.every((j) => !isRecentRepeat(i, j))) ?? joinable[0];
+    if (triad) triad.push(i);
+    else unmatchedIndexes.push(i);
+  }
+
+  const pairs: ProposedPair[] = groups.map((group) => {
+    const [a, b, c] = group;
+    const reasons = graph.describe(a, b);
+    if (isRecentRepeat(a, b)) {
+      reasons.push(repeatReason);
+    }
+    if (c !== undefined) {
+      reasons.push("Triad formed so an odd pool member was not left out");
+    }
+    // A group is only as easy to schedule as its weakest pairing
+    const edgeScores = group.flatMap((i, index) => group.slice(index + 1).map((j) => score(i, j)!));
+    return {
+      user1Id: users[a].id,
+      user2Id: users[b].id,
+      ...(c !== undefined ? { user3Id: users[c].id } : {}),
+      score: Math.round(Math.min(...edgeScores) * 100) / 100,
+      reasons,
+    };
+  });
+
+  // Details are shown to the member on their dashboard while they wait
+  const unmatched: UnmatchedUser[] = unmatchedIndexes.map((i) =>
+    users.every((_, j) => score(i, j) === undefined)
+      ? {
+          userId: users[i].id,
+          reason: "no_compatible_partner",
+          detail: "No available member matched your preferences, timezone and safety settings this round.",
+        }
+      : {
+          userId: users[i].id,
+          reason: "pool_exhausted",
+          detail: "There was an odd number of compatible members this round, so everyone else was already paired.",
+        },
+  );
+
+  return { candidateCount: users.length, pairs, unmatched };
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest";
+import { getPartnershipMemberIds, matchingOptionsSchema, type MatchingOptions, type MatchProposal, type User } from "@shared/schema";
+import { getMatchingStrategy } from "./matchingStrategies";
+import type { MatchingInput } from "./matchingGraph";
+import { makeExclusion, makeFeedback, makePartnership, makeUser } from "./testFixtures";
+
+// The strategies break ties randomly, so each expectation is checked over several runs
+const RUNS = 20;
+
+function matchingInput(candidates: User[], overrides: Partial<Omit<MatchingInput, "options">> = {}, options: Partial<MatchingOptions> = {}): MatchingInput {
+  return {
+    candidates,
+    exclusions: [],
+    history: [],
+    feedback: [],
+    priorityUserIds: new Set(),
+    ...overrides,
+    options: matchingOptionsSchema.parse(options),
+  };
+}
+
+function groupsOf(proposal: MatchProposal): string[] {
+  return proposal.pairs.map((pair) => getPartnershipMemberIds(pair).sort().join("+")).sort();
+}
+
+describe("scored strategy", () => {
+  const scored = getMatchingStrategy("scored");
+
+  it("pairs strong scheduling fits before weaker ones", () => {
+    const input = matchingInput([
+      makeUser("a", { timezone: "Etc/UTC" }),
+      makeUser("b", { timezone: "Etc/UTC" }),
+      makeUser("c", { timezone: "Etc/GMT-6" }),
+      makeUser("d", { timezone: "Etc/GMT-6" }),
+    ]);
+    for (let run = 0; run < RUNS; run++) {
+      expect(groupsOf(scored.propose(input))).toEqual(["a+b", "c+d"]);
+    }
+  });
+
+  it("avoids recent partners even when they fit better", () => {
+    const input = matchingInput(
+      [
+        makeUser("a", { timezone: "Etc/UTC" }),
+        makeUser("b", { timezone: "Etc/UTC" }),
+        makeUser("c", { timezone: "Etc/GMT-6" }),
+        makeUser("d", { timezone: "Etc/GMT-6" }),
+      ],
+      { history: [makePartnership("ab", ["a", "b"]), makePartnership("cd", ["c", "d"])] },
+    );
+    for (let run = 0; run < RUNS; run++) {
+      const groups = groupsOf(scored.propose(input));
+      expect(groups).toHaveLength(2);
+      expect(groups).not.toContain("a+b");
+      expect(groups).not.toContain("c+d");
+    }
+  });
+
+  it("repeats a recent partnership only when nothing else pairs everyone", () => {
+    const input = matchingInput([makeUser("a"), makeUser("b")], { history: [makePartnership("ab", ["a", "b"])] });
+    const proposal = scored.propose(input);
+    expect(groupsOf(proposal)).toEqual(["a+b"]);
+    expect(proposal.pairs[0].reasons).toContain("Repeat of a recent partnership - no other valid pairing was available");
+  });
+
+  it("pairs past partners who both asked to be matched again first", () => {
+    const input = matchingInput([makeUser("a"), makeUser("b"), makeUser("c"), makeUser("d")], {
+      history: [makePartnership("ab", ["a", "b"])],
+      feedback: [makeFeedback("ab", "a", 5, true), makeFeedback("ab", "b", 4, true)],
+    });
+    for (let run = 0; run < RUNS; run++) {
+      const proposal = scored.propose(input);
+      expect(groupsOf(proposal)).toEqual(["a+b", "c+d"]);
+      const welcome = proposal.pairs.find((pair) => getPartnershipMemberIds(pair).includes("a"))!;
+      expect(welcome.reasons).toContain("Past partners who both asked to be matched again");
+      expect(welcome.reasons.some((reason) => reason.startsWith("Repeat"))).toBe(false);
+    }
+  });
+
+  it("still pairs as many members as possible", () => {
+    // c only fits a, so a gives up its strong pairings and nobody is left out
+    const input = matchingInput(
+      [
+        makeUser("a", { timezone: "Etc/UTC" }),
+        makeUser("b", { timezone: "Etc/UTC" }),
+        makeUser("c", { timezone: "Etc/GMT-6" }),
+        makeUser("d", { timezone: "Etc/UTC" }),
+      ],
+      { exclusions: [makeExclusion("c", "b"), makeExclusion("c", "d")] },
+    );
+    for (let run = 0; run < RUNS; run++) {
+      const proposal = scored.propose(input);
+      expect(groupsOf(proposal)).toEqual(["a+c", "b+d"]);
+      expect(proposal.unmatched).toEqual([]);
+    }
+  });
+
+  it("pairs waitlisted members before the rest of an odd pool", () => {
+    const input = matchingInput([makeUser("a"), makeUser("b"), makeUser("waiting")], { priorityUserIds: new Set(["waiting"]) });
+    for (let run = 0; run < RUNS; run++) {
+      const proposal = scored.propose(input);
+      expect(proposal.pairs).toHaveLength(1);
+      expect(proposal.unmatched.map((entry) => entry.userId)).not.toContain("waiting");
+    }
+  });
+});
+
+describe("random strategy", () => {
+  it("keeps to the hard constraints", () => {
+    const input = matchingInput(
+      [
+        makeUser("a"),
+        makeUser("b"),
+        makeUser("c"),
+        makeUser("d"),
+        makeUser("woman", { gender: "female" }),
+        makeUser("far", { timezone: "Etc/GMT-9" }),
+      ],
+      {
+        exclusions: [makeExclusion("a", "b")],
+        history: [makePartnership("cd", ["c", "d"])],
+        feedback: [makeFeedback("cd", "c", 1, false), makeFeedback("cd", "d", 2, false)],
+      },
+      { strategy: "random", maxTimezoneOffsetHours: 3 },
+    );
+    for (let run = 0; run < RUNS; run++) {
+      const proposal = getMatchingStrategy("random").propose({
+        ...input,
+        candidates: input.candidates.map((user) => (user.timezone ? user : { ...user, timezone: "Etc/UTC" })),
+      });
+      const groups = groupsOf(proposal);
+      expect(groups).toHaveLength(2);
+      expect(groups).not.toContain("a+b");
+      expect(groups).not.toContain("c+d");
+      expect(proposal.unmatched.map((entry) => entry.userId).sort()).toEqual(["far", "woman"]);
+    }
+  });
+});
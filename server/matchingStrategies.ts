@@ -0,0 +1,66 @@
+import type { MatchingStrategyName, MatchProposal } from "@shared/schema";
+import { buildCompatibilityGraph, buildProposal, maximumMatching, type MatchingInput } from "./matchingGraph";
+
+/**
+ * A way of choosing pairs for a round. Every strategy sees the same candidates and
+ * hard constraints (gender preferences, exclusions, maximum timezone difference) and
+ * returns pairs with scores and human-readable reasons for the admin preview.
+ */
+export interface MatchingStrategy {
+  name: MatchingStrategyName;
+  label: string;
+  description: string;
+  propose(input: MatchingInput): MatchProposal;
+}
+
+// Pairs scoring at least this well are matched before any weaker pairing is considered
+const STRONG_MATCH_SCORE = 0.75;
+
+/**
+ * Recent partners and scheduling fit are soft constraints: the graph is matched in
+ * passes, first over past partners who both asked to be matched again, then strong
+ * non-repeat pairs, then all non-repeat pairs, then every edge; each pass starts from
+ * the previous pass's pairs and only changes them to pair more members.
+ */
+const scoredStrategy: MatchingStrategy = {
+  name: "scored",
+  label: "Scored",
+  description: "Prefers close timezones and shared availability, and avoids recent partners",
+  propose(input) {
+    const graph = buildCompatibilityGraph(input);
+    const strong = graph.adjacency((i, j) => !graph.isRecentRepeat(i, j) && graph.score(i, j)! >= STRONG_MATCH_SCORE);
+    const preferred = graph.adjacency((i, j) => !graph.isRecentRepeat(i, j));
+    const welcome = graph.adjacency((i, j) => graph.isWelcomeRepeat(i, j));
+    const match = [strong, preferred, graph.adjacency()].reduce(
+      (previous, adjacency) => maximumMatching(adjacency, previous),
+      maximumMatching(welcome),
+    );
+    return buildProposal(
+      graph,
+      match,
+      input.options,
+      "Repeat of a recent partnership - no other valid pairing was available",
+    );
+  },
+};
+
+// The original behaviour: any valid pairing is as good as another
+const randomStrategy: MatchingStrategy = {
+  name: "random",
+  label: "Random",
+  description: "Pairs compatible members at random, ignoring scores and recent partners",
+  propose(input) {
+    const graph = buildCompatibilityGraph(input);
+    const match = maximumMatching(graph.adjacency(undefined, "random"));
+    return buildProposal(graph, match, input.options);
+  },
+};
+
+export const matchingStrategies: Record<MatchingStrategyName, MatchingStrategy> = {
+  scored: scoredStrategy,
+  random: randomStrategy,
+};
+
+export function getMatchingStrategy(name: MatchingStrategyName): MatchingStrategy {
+  return matchingStrategies[name];
+}
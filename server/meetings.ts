@@ -0,0 +1,157 @@
+import { getPartnershipMemberIds, type InsertMeeting, type Meeting, type Partnership } from "@shared/schema";
+import { storage } from "./storage";
+import { notifyMembers } from "./partnerships";
+
+export class MeetingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MeetingError";
+  }
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Meeting time as the member sees it, in their profile timezone when they have one
+function formatForMember(date: Date, timezone: string | null): string {
+  return date.toLocaleString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZoneName: "short",
+    timeZone: timezone && isValidTimezone(timezone) ? timezone : "UTC",
+  });
+}
+
+// Membership is checked by the route middleware that loaded the partnership
+function requireActive(partnership: Partnership): void {
+  if (partnership.status !== "active") {
+    throw new MeetingError("Meetings can only be scheduled in active partnerships", 409);
+  }
+}
+
+async function requireMeeting(partnership: Partnership, meetingId: string): Promise<Meeting> {
+  const meeting = await storage.getMeeting(meetingId);
+  if (!meeting || meeting.partnershipId !== partnership.id) {
+    throw new MeetingError("Meeting not found", 404);
+  }
+  return meeting;
+}
+
+export async function proposeMeeting(partnership: Partnership, userId: string, proposal: InsertMeeting): Promise<Meeting> {
+  requireActive(partnership);
+  const proposer = await storage.getUser(userId);
+
+  const timezone = proposer?.timezone || proposal.timezone || "UTC";
+  if (!isValidTimezone(timezone)) {
+    throw new MeetingError("Set a valid timezone on your profile before scheduling meetings");
+  }
+  if (proposal.startsAt.getTime() <= Date.now()) {
+    throw new MeetingError("Pick a time in the future");
+  }
+  if (proposal.startsAt.getTime() >= new Date(partnership.endDate).getTime()) {
+    throw new MeetingError("Pick a time before your partnership ends");
+  }
+
+  const meeting = await storage.createMeeting(partnership.id, userId, { ...proposal, timezone });
+  const when = meeting.recurrence === "weekly" ? "weekly from" : "for";
+  await notifyMembers(partnership, userId, {
+    type: "meeting_proposed",
+    title: "Meeting proposed",
+    body: (member) =>
+      `${proposer?.name || "Your partner"} proposed "${meeting.title}" ${when} ${formatForMember(meeting.startsAt, member?.timezone ?? null)}. Accept or decline on your dashboard.`,
+  });
+  return meeting;
+}
+
+/**
+ * Records one member's answer to a proposed meeting. A decline settles it straight away;
+ * it is only accepted, and added to calendar feeds, once every other member has accepted.
+ */
+export async function respondToMeeting(
+  partnership: Partnership,
+  meetingId: string,
+  userId: string,
+  accept: boolean,
+): Promise<Meeting> {
+  requireActive(partnership);
+  const meeting = await requireMeeting(partnership, meetingId);
+  if (meeting.status !== "proposed") {
+    throw new MeetingError(`This meeting was already ${meeting.status}`, 409);
+  }
+  if (meeting.proposedBy === userId) {
+    throw new MeetingError("You can't respond to your own proposal; cancel it instead", 403);
+  }
+  if (meeting.acceptedBy.includes(userId)) {
+    throw new MeetingError("You have already accepted this meeting", 409);
+  }
+
+  const responder = await storage.getUser(userId);
+  const responderName = responder?.name || "Your partner";
+  const awaiting = getPartnershipMemberIds(partnership).filter(
+    (id) => id !== meeting.proposedBy && id !== userId && !meeting.acceptedBy.includes(id),
+  );
+
+  const updates: Partial<Meeting> = !accept
+    ? { status: "declined", respondedBy: userId }
+    : awaiting.length > 0
+      ? { acceptedBy: [...meeting.acceptedBy, userId] }
+      : { status: "accepted", acceptedBy: [...meeting.acceptedBy, userId], respondedBy: userId };
+  const updated = await storage.updateMeeting(meeting.id, ["proposed"], updates);
+  if (!updated) {
+    throw new MeetingError("This meeting was already settled", 409);
+  }
+
+  if (updated.status === "declined") {
+    await notifyMembers(partnership, userId, {
+      type: "meeting_declined",
+      title: "Meeting declined",
+      body: (member) =>
+        `${responderName} can't make "${meeting.title}" on ${formatForMember(meeting.startsAt, member?.timezone ?? null)}. Try proposing another time.`,
+    });
+  } else if (updated.status === "accepted") {
+    await notifyMembers(partnership, userId, {
+      type: "meeting_accepted",
+      title: "Meeting confirmed",
+      body: (member) =>
+        `"${meeting.title}" on ${formatForMember(meeting.startsAt, member?.timezone ?? null)} is confirmed and will appear in your calendar feed.`,
+    });
+  }
+  return updated;
+}
+
+// The proposer can withdraw a proposal; any member can cancel a confirmed meeting
+export async function cancelMeeting(partnership: Partnership, meetingId: string, userId: string): Promise<Meeting> {
+  requireActive(partnership);
+  const meeting = await requireMeeting(partnership, meetingId);
+  if (meeting.status === "proposed" && meeting.proposedBy !== userId) {
+    throw new MeetingError("Only the member who proposed the meeting can withdraw it; decline it instead", 403);
+  }
+
+  const cancelled = await storage.updateMeeting(meeting.id, ["proposed", "accepted"], {
+    status: "cancelled",
+    respondedBy: userId,
+  });
+  if (!cancelled) {
+    throw new MeetingError(`This meeting was already ${meeting.status}`, 409);
+  }
+
+  if (meeting.status === "accepted") {
+    const canceller = await storage.getUser(userId);
+    await notifyMembers(partnership, userId, {
+      type: "meeting_cancelled",
+      title: "Meeting cancelled",
+      body: (member) =>
+        `${canceller?.name || "Your partner"} cancelled "${meeting.title}"${meeting.recurrence === "weekly" ? " and its weekly repeats" : ""} (${formatForMember(meeting.startsAt, member?.timezone ?? null)}).`,
+    });
+  }
+  return cancelled;
+}
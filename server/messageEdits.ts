@@ -0,0 +1,50 @@
+import { MESSAGE_EDIT_WINDOW_MINUTES, type Message, type Partnership } from "@shared/schema";
+import { storage } from "./storage";
+
+export class MessageEditError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "MessageEditError";
+  }
+}
+
+// Members may only revise their own messages, and only shortly after sending them
+async function requireEditableMessage(partnership: Partnership, messageId: string, userId: string): Promise<Message> {
+  const message = await storage.getMessage(messageId);
+  if (!message || message.partnershipId !== partnership.id) {
+    throw new MessageEditError("Message not found", 404);
+  }
+  if (message.senderId !== userId) {
+    throw new MessageEditError("You can only change your own messages", 403);
+  }
+  if (message.deletedAt) {
+    throw new MessageEditError("This message was deleted", 409);
+  }
+  const sentAt = message.createdAt ? new Date(message.createdAt).getTime() : 0;
+  if (Date.now() - sentAt > MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000) {
+    throw new MessageEditError(`Messages can only be changed within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending`, 409);
+  }
+  return message;
+}
+
+export async function editMessage(partnership: Partnership, messageId: string, userId: string, content: string): Promise<Message> {
+  const message = await requireEditableMessage(partnership, messageId, userId);
+  if (message.content === content) {
+    throw new MessageEditError("The message hasn't changed");
+  }
+  const edited = await storage.reviseMessage(message.id, "edited", content);
+  if (!edited) {
+    throw new MessageEditError("This message was deleted", 409);
+  }
+  return edited;
+}
+
+// The message stays in the conversation as a "deleted" placeholder; its content moves to the revisions
+export async function deleteMessage(partnership: Partnership, messageId: string, userId: string): Promise<Message> {
+  const message = await requireEditableMessage(partnership, messageId, userId);
+  const deleted = await storage.reviseMessage(message.id, "deleted");
+  if (!deleted) {
+    throw new MessageEditError("This message was already deleted", 409);
+  }
+  return deleted;
+}
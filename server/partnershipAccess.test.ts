@@ -0,0 +1,150 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express, { type Express } from "express";
+import request from "supertest";
+import type { User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { registerRoutes } from "./routes";
+import { makePartnership, makeUser } from "./testFixtures";
+
+// Typed against IStorage so fixtures that drift from the storage contract fail the type-check
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getUser: vi.fn<IStorage["getUser"]>(),
+    getPartnership: vi.fn<IStorage["getPartnership"]>(),
+    createAuditLogEntry: vi.fn<IStorage["createAuditLogEntry"]>(),
+    getPartnershipMessagePage: vi.fn<IStorage["getPartnershipMessagePage"]>(),
+  },
+}));
+
+vi.mock("./storage", () => ({ storage }));
+
+// Whoever the x-test-user header names is signed in
+vi.mock("./replitAuth", () => ({
+  setupAuth: vi.fn(),
+  getSession: vi.fn(),
+  isAuthenticated: (req: any, res: any, next: any) => {
+    const userId = req.get("x-test-user");
+    if (!userId) return res.status(401).json({ message: "Unauthorized" });
+    req.session = { userId };
+    next();
+  },
+}));
+
+vi.mock("./db", () => ({
+  db: {},
+  pool: null,
+  validateConnection: vi.fn(),
+  isDbConnected: () => false,
+}));
+
+vi.mock("./realtime", () => ({
+  setupRealtime: vi.fn(),
+  publishToUsers: vi.fn(),
+  publishPresence: vi.fn(),
+  getPresenceStatus: vi.fn(),
+}));
+
+const partnership = makePartnership("partnership-1", ["member-1", "member-2"]);
+
+const users: Record<string, User> = {
+  "member-1": makeUser("member-1"),
+  "member-2": makeUser("member-2"),
+  outsider: makeUser("outsider"),
+  admin: makeUser("admin", { isAdmin: true }),
+};
+
+let app: Express;
+
+beforeAll(async () => {
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storage.getUser.mockImplementation(async (id: string) => users[id]);
+  storage.getPartnership.mockImplementation(async (id: string) => (id === partnership.id ? partnership : undefined));
+  storage.createAuditLogEntry.mockImplementation(async (entry) => ({ id: "audit-1", createdAt: new Date(), ...entry }));
+  storage.getPartnershipMessagePage.mockResolvedValue({ messages: [], hasMore: false });
+});
+
+describe("requirePartnershipMember", () => {
+  const routes: Array<[string, (userId: string) => request.Test]> = [
+    ["GET /api/messages/:partnershipId", (userId) => request(app).get(`/api/messages/${partnership.id}`).set("x-test-user", userId)],
+    ["POST /api/messages", (userId) => request(app).post("/api/messages").set("x-test-user", userId).send({ partnershipId: partnership.id, content: "hello" })],
+    ["GET /api/partnerships/:id/goals", (userId) => request(app).get(`/api/partnerships/${partnership.id}/goals`).set("x-test-user", userId)],
+    ["POST /api/partnerships/:id/goals", (userId) => request(app).post(`/api/partnerships/${partnership.id}/goals`).set("x-test-user", userId).send({ title: "Ship it" })],
+    ["GET /api/partnerships/:id/check-ins", (userId) => request(app).get(`/api/partnerships/${partnership.id}/check-ins`).set("x-test-user", userId)],
+    ["POST /api/partnerships/:id/check-ins", (userId) => request(app).post(`/api/partnerships/${partnership.id}/check-ins`).set("x-test-user", userId).send({})],
+    ["GET /api/partnerships/:id/meetings", (userId) => request(app).get(`/api/partnerships/${partnership.id}/meetings`).set("x-test-user", userId)],
+    ["POST /api/partnerships/:id/meetings", (userId) => request(app).post(`/api/partnerships/${partnership.id}/meetings`).set("x-test-user", userId).send({})],
+    ["GET /api/partnerships/:id/extensions", (userId) => request(app).get(`/api/partnerships/${partnership.id}/extensions`).set("x-test-user", userId)],
+    ["POST /api/partnerships/:id/extensions", (userId) => request(app).post(`/api/partnerships/${partnership.id}/extensions`).set("x-test-user", userId).send({})],
+    ["POST /api/reports", (userId) => request(app).post("/api/reports").set("x-test-user", userId).send({ partnershipId: partnership.id, reportedUserId: "member-2", reason: "spam" })],
+  ];
+
+  describe.each(routes)("%s", (_route, send) => {
+    it("refuses a signed-in user who is not a member", async () => {
+      const res = await send("outsider");
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe("You are not a member of this partnership");
+    });
+
+    it("refuses an admin who is not a member", async () => {
+      const res = await send("admin");
+      expect(res.status).toBe(403);
+      expect(res.body.message).toBe("You are not a member of this partnership");
+    });
+  });
+
+  it("returns 404 for a partnership that does not exist", async () => {
+    const res = await request(app).get("/api/messages/missing").set("x-test-user", "member-1");
+    expect(res.status).toBe(404);
+  });
+
+  it("lets reports without a partnership through to validation", async () => {
+    const res = await request(app).post("/api/reports").set("x-test-user", "outsider").send({});
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("Failed to create report");
+  });
+});
+
+describe("requireAuditedAdminAccess", () => {
+  const messagesUrl = `/api/admin/partnerships/${partnership.id}/messages`;
+
+  it("requires a reason", async () => {
+    const res = await request(app).get(messagesUrl).set("x-test-user", "admin");
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe("A reason is required to view partnership data");
+    expect(storage.createAuditLogEntry).not.toHaveBeenCalled();
+    expect(storage.getPartnershipMessagePage).not.toHaveBeenCalled();
+  });
+
+  it("treats a blank reason as missing", async () => {
+    const res = await request(app).get(messagesUrl).query({ reason: "   " }).set("x-test-user", "admin");
+    expect(res.status).toBe(400);
+    expect(storage.createAuditLogEntry).not.toHaveBeenCalled();
+  });
+
+  it("writes an audit row before serving the data", async () => {
+    const res = await request(app).get(messagesUrl).query({ reason: "Report #12" }).set("x-test-user", "admin");
+    expect(res.status).toBe(200);
+    expect(storage.createAuditLogEntry).toHaveBeenCalledTimes(1);
+    expect(storage.createAuditLogEntry).toHaveBeenCalledWith({
+      adminId: "admin",
+      action: "partnership.view_messages",
+      targetType: "partnership",
+      targetId: partnership.id,
+      details: { reason: "Report #12", path: messagesUrl },
+    });
+    expect(storage.getPartnershipMessagePage).toHaveBeenCalledWith(partnership.id, expect.any(Object));
+  });
+
+  it("is only open to admins", async () => {
+    const res = await request(app).get(messagesUrl).query({ reason: "Curious" }).set("x-test-user", "member-1");
+    expect(res.status).toBe(403);
+    expect(storage.createAuditLogEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+import type { NextFunction, Request, Response } from "express";
+import { getPartnershipMemberIds } from "@shared/schema";
+import { storage } from "./storage";
+
+// Where a route carries the partnership id, e.g. a path parameter or a body field
+type PartnershipIdSource = (req: Request) => unknown;
+
+const fromIdParam: PartnershipIdSource = (req) => req.params.id;
+
+interface MemberAccessOptions {
+  // Let requests without a partnership id through, for routes where it is optional
+  optional?: boolean;
+}
+
+/**
+ * Only members of the partnership may continue; everyone else, admins included, gets 403.
+ * Admins read partnership data through requireAuditedAdminAccess instead. The loaded
+ * partnership is left on req.partnership for the route handler.
+ */
+export function requirePartnershipMember(
+  getPartnershipId: PartnershipIdSource = fromIdParam,
+  { optional = false }: MemberAccessOptions = {},
+) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const partnershipId = getPartnershipId(req);
+      if (partnershipId === undefined || partnershipId === null || partnershipId === "") {
+        if (optional) return next();
+        return res.status(400).json({ message: "Partnership id is required" });
+      }
+      if (typeof partnershipId !== "string") {
+        return res.status(400).json({ message: "Invalid partnership id" });
+      }
+
+      const partnership = await storage.getPartnership(partnershipId);
+      if (!partnership) {
+        return res.status(404).json({ message: "Partnership not found" });
+      }
+      if (!getPartnershipMemberIds(partnership).includes(req.userId)) {
+        return res.status(403).json({ message: "You are not a member of this partnership" });
+      }
+
+      req.partnership = partnership;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check partnership access" });
+    }
+  };
+}
+
+/**
+ * Admin access to a partnership's private data. Use after requireAdmin; the admin must
+ * give a reason (?reason=...) and every read is written to the admin audit log.
+ */
+export function requireAuditedAdminAccess(action: string) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const reason = typeof req.query.reason === "string" ? req.query.reason.trim() : "";
+      if (!reason) {
+        return res.status(400).json({ message: "A reason is required to view partnership data" });
+      }
+
+      const partnership = await storage.getPartnership(req.params.id);
+      if (!partnership) {
+        return res.status(404).json({ message: "Partnership not found" });
+      }
+
+      await storage.createAuditLogEntry({
+        adminId: req.userId,
+        action,
+        targetType: "partnership",
+        targetId: partnership.id,
+        details: { reason: reason.slice(0, 500), path: req.originalUrl.split("?")[0] },
+      });
+
+      req.partnership = partnership;
+      next();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to check partnership access" });
+    }
+  };
+}
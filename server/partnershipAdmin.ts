@@ -0,0 +1,166 @@
+import {
+  getPartnershipMemberIds,
+  matchingOptionsSchema,
+  type Exclusion,
+  type ManualPartnership,
+  type Partnership,
+  type PartnershipSwap,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { evaluateGroups, getAvailableUsers } from "./matching";
+import { getMatchingStrategy } from "./matchingStrategies";
+import { partnershipPeriod } from "./partnerships";
+
+export class PartnershipAdminError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PartnershipAdminError";
+  }
+}
+
+export interface ReassignmentResult {
+  created: Partnership[];
+  waitlistedUserIds: string[];
+}
+
+async function requireActivePartnership(partnershipId: string): Promise<Partnership> {
+  const partnership = await storage.getPartnership(partnershipId);
+  if (!partnership) {
+    throw new PartnershipAdminError("Partnership not found", 404);
+  }
+  if (partnership.status !== "active") {
+    throw new PartnershipAdminError("Only active partnerships can be changed", 409);
+  }
+  return partnership;
+}
+
+// Manual pairs, swaps and reassignments are held to the same rules as a matching run with
+// default options, which allow any timezone gap
+async function assertCompatible(memberIdGroups: string[][]): Promise<void> {
+  for (const fit of await evaluateGroups(memberIdGroups, matchingOptionsSchema.parse({}))) {
+    if (!fit.compatible) {
+      throw new PartnershipAdminError(fit.problem);
+    }
+  }
+}
+
+export async function createManualPartnership(adminId: string, { user1Id, user2Id }: ManualPartnership): Promise<Partnership> {
+  for (const userId of [user1Id, user2Id]) {
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      throw new PartnershipAdminError("Both members must be active users");
+    }
+  }
+  await assertCompatible([[user1Id, user2Id]]);
+
+  // Whether either member already has an active partnership is checked inside the transaction
+  const created = await storage.replacePartnerships({
+    end: [],
+    create: [[user1Id, user2Id]],
+    waitlist: [],
+    ...partnershipPeriod(),
+    audit: {
+      adminId,
+      action: "partnership.create",
+      targetType: "user",
+      targetId: null,
+      details: { userIds: [user1Id, user2Id] },
+    },
+  });
+  if (!created) {
+    throw new PartnershipAdminError("One of these members already has an active partnership", 409);
+  }
+  return created[0];
+}
+
+// Swapping ends both partnerships and creates new ones, so message history stays with the original members
+export async function swapPartners(adminId: string, swap: PartnershipSwap): Promise<Partnership[]> {
+  const partnershipA = await requireActivePartnership(swap.partnershipIdA);
+  const partnershipB = await requireActivePartnership(swap.partnershipIdB);
+  const membersA = getPartnershipMemberIds(partnershipA);
+  const membersB = getPartnershipMemberIds(partnershipB);
+  if (!membersA.includes(swap.memberA) || !membersB.includes(swap.memberB)) {
+    throw new PartnershipAdminError("Swapped members must belong to the selected partnerships");
+  }
+
+  const swappedA = membersA.map((id) => (id === swap.memberA ? swap.memberB : id));
+  const swappedB = membersB.map((id) => (id === swap.memberB ? swap.memberA : id));
+  await assertCompatible([swappedA, swappedB]);
+
+  const created = await storage.replacePartnerships({
+    end: [partnershipA.id, partnershipB.id],
+    create: [swappedA, swappedB],
+    waitlist: [],
+    reason: "Partners swapped by an admin",
+    ...partnershipPeriod(),
+    audit: {
+      adminId,
+      action: "partnership.swap",
+      targetType: "partnership",
+      targetId: partnershipA.id,
+      details: { ...swap },
+    },
+  });
+  if (!created) {
+    throw new PartnershipAdminError("A partnership changed while swapping. Refresh and try again.", 409);
+  }
+  return created;
+}
+
+/**
+ * Ends a partnership and rematches its members from the current pool of available
+ * members. Former partners are never paired with each other again here; anyone who
+ * cannot be rematched goes to the front of the waitlist.
+ */
+export async function reassignPartnership(adminId: string, partnershipId: string): Promise<ReassignmentResult> {
+  const partnership = await requireActivePartnership(partnershipId);
+  const memberIds = getPartnershipMemberIds(partnership);
+  const members = (await Promise.all(memberIds.map((id) => storage.getUser(id)))).filter(
+    (user): user is User => !!user && !!user.isActive,
+  );
+
+  const formerPartners: Exclusion[] = memberIds.flatMap((userId) =>
+    memberIds
+      .filter((partnerId) => partnerId !== userId)
+      .map((partnerId) => ({ id: "", userId, excludedUserId: partnerId, reason: null, createdAt: null })),
+  );
+  const proposal = getMatchingStrategy("scored").propose({
+    candidates: [...(await getAvailableUsers()), ...members],
+    exclusions: [...(await storage.getAllExclusions()), ...formerPartners],
+    history: await storage.getAllPartnerships(),
+    feedback: await storage.getAllPartnershipFeedback(),
+    priorityUserIds: new Set(memberIds),
+    options: matchingOptionsSchema.parse({}),
+  });
+
+  // Only pairs involving the reassigned members are used; the rest of the pool is untouched
+  const pairs = proposal.pairs.filter((pair) => getPartnershipMemberIds(pair).some((id) => memberIds.includes(id)));
+  const rematched = new Set(pairs.flatMap((pair) => getPartnershipMemberIds(pair)));
+  const waitlist = members
+    .filter((member) => !rematched.has(member.id))
+    .map((member) => ({
+      userId: member.id,
+      reason: "removed_by_admin" as const,
+      detail: "An admin ended your partnership and no new partner was available yet. You'll be first in line for the next round.",
+    }));
+
+  const created = await storage.replacePartnerships({
+    end: [partnership.id],
+    create: pairs.map((pair) => getPartnershipMemberIds(pair)),
+    waitlist,
+    reason: "Reassigned by an admin",
+    ...partnershipPeriod(),
+    audit: {
+      adminId,
+      action: "partnership.reassign",
+      targetType: "partnership",
+      targetId: partnership.id,
+      details: { memberIds, waitlistedUserIds: waitlist.map((entry) => entry.userId) },
+    },
+  });
+  if (!created) {
+    throw new PartnershipAdminError("The partnership changed while reassigning. Refresh and try again.", 409);
+  }
+  return { created, waitlistedUserIds: waitlist.map((entry) => entry.userId) };
+}
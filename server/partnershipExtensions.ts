@@ -0,0 +1,125 @@
+import { getPartnershipMemberIds, type Partnership, type PartnershipExtension } from "@shared/schema";
+import { storage } from "./storage";
+import { notifyMembers } from "./partnerships";
+
+export class PartnershipExtensionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PartnershipExtensionError";
+  }
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Membership is checked by the route middleware that loaded the partnership
+function requireActive(partnership: Partnership): void {
+  if (partnership.status !== "active") {
+    throw new PartnershipExtensionError("Only active partnerships can be extended", 409);
+  }
+}
+
+async function requirePendingExtension(partnership: Partnership, extensionId: string): Promise<PartnershipExtension> {
+  const extension = await storage.getPartnershipExtension(extensionId);
+  if (!extension || extension.partnershipId !== partnership.id) {
+    throw new PartnershipExtensionError("Extension request not found", 404);
+  }
+  if (extension.status !== "pending") {
+    throw new PartnershipExtensionError(`This request was already ${extension.status}`, 409);
+  }
+  return extension;
+}
+
+export async function requestExtension(partnership: Partnership, userId: string, weeks: number): Promise<PartnershipExtension> {
+  requireActive(partnership);
+  const extensions = await storage.getPartnershipExtensions(partnership.id);
+  if (extensions.some((extension) => extension.status === "pending")) {
+    throw new PartnershipExtensionError("There is already a pending extension request", 409);
+  }
+
+  const extension = await storage.createPartnershipExtension(partnership.id, userId, weeks);
+  const requester = await storage.getUser(userId);
+  await notifyMembers(partnership, userId, {
+    type: "extension_requested",
+    title: "Extension requested",
+    body: `${requester?.name || "Your partner"} would like to extend your partnership by ${weeks} week(s). Accept or decline on your dashboard.`,
+  });
+  return extension;
+}
+
+/**
+ * Records one member's answer. A decline settles the request straight away; the end date
+ * only moves once every member other than the requester has accepted. Extended pairs stay
+ * active, so match rounds keep skipping them until the new end date.
+ */
+export async function respondToExtension(
+  partnership: Partnership,
+  extensionId: string,
+  userId: string,
+  accept: boolean,
+): Promise<PartnershipExtension> {
+  requireActive(partnership);
+  const extension = await requirePendingExtension(partnership, extensionId);
+  if (extension.requestedBy === userId) {
+    throw new PartnershipExtensionError("You can't respond to your own request; cancel it instead", 403);
+  }
+  if (extension.acceptedBy.includes(userId)) {
+    throw new PartnershipExtensionError("You have already accepted this request", 409);
+  }
+
+  const responder = await storage.getUser(userId);
+  const responderName = responder?.name || "Your partner";
+
+  if (!accept) {
+    const declined = await storage.updatePendingExtension(extension.id, {
+      status: "declined",
+      respondedBy: userId,
+      respondedAt: new Date(),
+    });
+    if (!declined) {
+      throw new PartnershipExtensionError("This request was already settled", 409);
+    }
+    await notifyMembers(partnership, userId, {
+      type: "extension_declined",
+      title: "Extension declined",
+      body: `${responderName} declined the ${extension.weeks} week extension. Your partnership ends as planned.`,
+    });
+    return declined;
+  }
+
+  const awaiting = getPartnershipMemberIds(partnership).filter(
+    (id) => id !== extension.requestedBy && id !== userId && !extension.acceptedBy.includes(id),
+  );
+  if (awaiting.length > 0) {
+    const updated = await storage.updatePendingExtension(extension.id, { acceptedBy: [...extension.acceptedBy, userId] });
+    if (!updated) {
+      throw new PartnershipExtensionError("This request was already settled", 409);
+    }
+    return updated;
+  }
+
+  const endDate = new Date(new Date(partnership.endDate).getTime() + extension.weeks * WEEK_MS);
+  const accepted = await storage.acceptPartnershipExtension(extension.id, userId, endDate);
+  if (!accepted) {
+    throw new PartnershipExtensionError("The partnership changed while extending. Refresh and try again.", 409);
+  }
+  await notifyMembers(partnership, userId, {
+    type: "extension_accepted",
+    title: "Partnership extended",
+    body: `${responderName} accepted. Your partnership now runs until ${endDate.toLocaleDateString("en-US", { month: "long", day: "numeric" })}.`,
+  });
+  return accepted;
+}
+
+export async function cancelExtension(partnership: Partnership, extensionId: string, userId: string): Promise<PartnershipExtension> {
+  requireActive(partnership);
+  const extension = await requirePendingExtension(partnership, extensionId);
+  if (extension.requestedBy !== userId) {
+    throw new PartnershipExtensionError("Only the member who asked can cancel the request", 403);
+  }
+
+  const cancelled = await storage.updatePendingExtension(extension.id, { status: "cancelled", respondedAt: new Date() });
+  if (!cancelled) {
+    throw new PartnershipExtensionError("This request was already settled", 409);
+  }
+  return cancelled;
+}
@@ -0,0 +1,145 @@
+import {
+  getPartnershipMemberIds,
+  isMatchingPaused,
+  type EndPartnership,
+  type Partnership,
+  type PartnershipStatus,
+  type PartnershipTransition,
+  type User,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { requestRematch, RematchError, type RematchResult } from "./rematch";
+import { notifyMembers } from "./partnerships";
+
+export class PartnershipLifecycleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "PartnershipLifecycleError";
+  }
+}
+
+type TransitionRole = "member" | "admin";
+
+interface TransitionRule {
+  roles: TransitionRole[];
+  reasonRequired: boolean;
+}
+
+/**
+ * Allowed status changes. Completed, ended early and cancelled partnerships are final;
+ * the scheduler completes partnerships past their end date on its own.
+ */
+const transitions: Partial<Record<PartnershipStatus, Partial<Record<PartnershipStatus, TransitionRule>>>> = {
+  active: {
+    completed: { roles: ["admin"], reasonRequired: false },
+    ended_early: { roles: ["member", "admin"], reasonRequired: true },
+    // Cancelling treats the partnership as a mistake, so only admins may do it
+    cancelled: { roles: ["admin"], reasonRequired: true },
+  },
+};
+
+function rolesFor(user: User, partnership: Partnership): TransitionRole[] {
+  const roles: TransitionRole[] = [];
+  if (getPartnershipMemberIds(partnership).includes(user.id)) roles.push("member");
+  if (user.isAdmin) roles.push("admin");
+  return roles;
+}
+
+export function canViewPartnership(user: User, partnership: Partnership): boolean {
+  return rolesFor(user, partnership).length > 0;
+}
+
+export async function transitionPartnership(
+  partnershipId: string,
+  user: User,
+  { status, reason }: PartnershipTransition,
+): Promise<Partnership> {
+  const partnership = await storage.getPartnership(partnershipId);
+  // Non-members get the same response as a missing partnership
+  if (!partnership || !canViewPartnership(user, partnership)) {
+    throw new PartnershipLifecycleError("Partnership not found", 404);
+  }
+
+  const from = partnership.status ?? "active";
+  const rule = transitions[from]?.[status];
+  if (!rule) {
+    throw new PartnershipLifecycleError(`A partnership that is ${from} cannot become ${status}`, 409);
+  }
+  if (!rule.roles.some((role) => rolesFor(user, partnership).includes(role))) {
+    throw new PartnershipLifecycleError("You are not allowed to make this change", 403);
+  }
+  if (rule.reasonRequired && !reason) {
+    throw new PartnershipLifecycleError("A reason is required for this change");
+  }
+
+  // Ending before the planned end date moves the end date to now
+  const now = new Date();
+  const endDate = new Date(partnership.endDate) > now ? now : new Date(partnership.endDate);
+  const updated = await storage.transitionPartnership(partnership.id, {
+    from,
+    to: status,
+    endDate,
+    changedBy: user.id,
+    reason: reason || "No reason given",
+  });
+  if (!updated) {
+    throw new PartnershipLifecycleError("The partnership changed while updating. Refresh and try again.", 409);
+  }
+  return updated;
+}
+
+export interface EndPartnershipResult {
+  partnership: Partnership;
+  rematch: RematchResult | null;
+  // Why a requested rematch didn't go ahead; the partnership has still ended
+  rematchError?: string;
+}
+
+/**
+ * A member ending their partnership early: the reason is recorded in the status history,
+ * the other members are notified and offered a rematch, and the member can exclude them
+ * and ask for a new partner in the same step.
+ */
+export async function endPartnershipEarly(
+  partnershipId: string,
+  user: User,
+  { reason, excludePartner, requestRematch: wantsRematch }: EndPartnership,
+): Promise<EndPartnershipResult> {
+  const existing = await storage.getPartnership(partnershipId);
+  if (!existing || !getPartnershipMemberIds(existing).includes(user.id)) {
+    throw new PartnershipLifecycleError("Partnership not found", 404);
+  }
+  // Checked up front so a rematch that can't happen doesn't fail after the partnership has ended
+  if (wantsRematch && isMatchingPaused(user)) {
+    throw new PartnershipLifecycleError("Resume matching before asking for a new partner", 409);
+  }
+
+  const partnership = await transitionPartnership(partnershipId, user, { status: "ended_early", reason });
+  const partnerIds = getPartnershipMemberIds(partnership).filter((id) => id !== user.id);
+
+  if (excludePartner) {
+    for (const partnerId of partnerIds) {
+      if (!(await storage.isUserExcluded(user.id, partnerId))) {
+        await storage.createExclusion(user.id, { excludedUserId: partnerId, reason: "Ended partnership early" });
+      }
+    }
+  }
+  // The reason stays private to admins; partners only learn that the partnership ended
+  await notifyMembers(partnership, user.id, {
+    type: "partnership_ended",
+    title: "Your partnership has ended",
+    body: `${user.name || "Your partner"} ended your partnership early. You can ask for a new partner from the waiting pool now, or wait for the next round.`,
+  });
+
+  if (!wantsRematch) {
+    return { partnership, rematch: null };
+  }
+  try {
+    return { partnership, rematch: await requestRematch(user.id) };
+  } catch (error) {
+    if (error instanceof RematchError) {
+      return { partnership, rematch: null, rematchError: error.message };
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { getPartnershipMemberIds, type Partnership, type User } from "@shared/schema";
+import { storage } from "./storage";
+
+// New partnerships run for a month from when they are created, whether by a round, a rematch or an admin
+export function partnershipPeriod(startDate = new Date()): { startDate: Date; endDate: Date } {
+  const endDate = new Date(startDate);
+  endDate.setMonth(endDate.getMonth() + 1);
+  return { startDate, endDate };
+}
+
+export interface PartnershipNotification {
+  type: string;
+  title: string;
+  // A function when the text depends on the recipient, e.g. times shown in their timezone
+  body: string | ((member: User | undefined) => string);
+}
+
+// Notifies every member of the partnership except the one who acted
+export async function notifyMembers(
+  partnership: Partnership,
+  exceptUserId: string | null,
+  { type, title, body }: PartnershipNotification,
+): Promise<void> {
+  for (const memberId of getPartnershipMemberIds(partnership)) {
+    if (memberId === exceptUserId) continue;
+    const text = typeof body === "string" ? body : body(await storage.getUser(memberId));
+    await storage.createNotification({ userId: memberId, type, title, body: text, partnershipId: partnership.id });
+  }
+}
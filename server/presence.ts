@@ -0,0 +1,23 @@
+import { getPartnershipMemberIds, type PartnerPresence, type PresenceStatus, type User } from "@shared/schema";
+import { storage } from "./storage";
+
+// What partners see of a member; members who hide their presence show nothing at all
+export function toPartnerPresence(user: User | undefined, status: PresenceStatus): PartnerPresence {
+  if (!user || user.hidePresence) return null;
+  return { status, lastSeenAt: user.lastSeenAt };
+}
+
+// Presence is only shared with the partners of the member's active partnership
+export async function getPresenceAudience(userId: string): Promise<string[]> {
+  const partnership = await storage.getActivePartnershipForUser(userId);
+  return partnership ? getPartnershipMemberIds(partnership).filter((id) => id !== userId) : [];
+}
+
+// Partners a typing notice goes to, or none when the member can't post there (not a member, or the
+// partnership is no longer active) or hides their presence
+export async function getTypingAudience(userId: string, partnershipId: string): Promise<string[]> {
+  const [partnership, user] = await Promise.all([storage.getPartnership(partnershipId), storage.getUser(userId)]);
+  if (!partnership || partnership.status !== "active" || !user || user.hidePresence) return [];
+  const memberIds = getPartnershipMemberIds(partnership);
+  return memberIds.includes(userId) ? memberIds.filter((id) => id !== userId) : [];
+}
@@ -0,0 +1,162 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  realtimeClientEventSchema,
+  type PresenceStatus,
+  type RealtimeClientEvent,
+  type RealtimeEvent,
+} from "@shared/schema";
+import { getSession } from "./replitAuth";
+import { storage } from "./storage";
+import { getPresenceAudience, getTypingAudience, toPartnerPresence } from "./presence";
+
+// Events (typed in @shared/schema) are pushed to connected members; clients refetch over HTTP for anything they missed
+
+const REALTIME_PATH = "/ws";
+const HEARTBEAT_MS = 30 * 1000;
+// Typing notices closer together than this are dropped; clients send at most one every 3s
+const TYPING_MIN_INTERVAL_MS = 2500;
+
+const socketsByUser = new Map<string, Set<WebSocket>>();
+const aliveSockets = new WeakSet<WebSocket>();
+// Tabs that reported no recent input; a member is idle when all of their tabs are
+const idleSockets = new WeakSet<WebSocket>();
+const lastTypingAt = new WeakMap<WebSocket, number>();
+
+// Runs the Express session middleware on the upgrade request and resolves the signed-in member
+function authenticateUpgrade(req: IncomingMessage): Promise<string | null> {
+  return new Promise((resolve) => {
+    const sessionMiddleware = getSession();
+    sessionMiddleware(req as any, {} as any, async (error?: unknown) => {
+      if (error) return resolve(null);
+      const session = (req as any).session;
+      // Local logins store userId; Replit Auth logins store OIDC claims via passport
+      const oidcUser = session?.passport?.user;
+      const hasValidOidcToken = oidcUser?.claims?.sub && oidcUser.expires_at >= Math.floor(Date.now() / 1000);
+      const userId: string | undefined = session?.userId ?? (hasValidOidcToken ? oidcUser.claims.sub : undefined);
+      if (!userId) return resolve(null);
+      try {
+        const user = await storage.getUser(userId);
+        resolve(user?.isActive ? user.id : null);
+      } catch {
+        resolve(null);
+      }
+    });
+  });
+}
+
+function rejectUpgrade(socket: Duplex): void {
+  socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+  socket.destroy();
+}
+
+export function getPresenceStatus(userId: string): PresenceStatus {
+  const sockets = Array.from(socketsByUser.get(userId) ?? []);
+  if (sockets.length === 0) return "offline";
+  return sockets.some((socket) => !idleSockets.has(socket)) ? "online" : "idle";
+}
+
+// Tells the member's partners where they stand, e.g. after a status change or a privacy setting change
+export async function publishPresence(userId: string): Promise<void> {
+  const [user, audience] = await Promise.all([storage.getUser(userId), getPresenceAudience(userId)]);
+  if (audience.length === 0) return;
+  publishToUsers(audience, { type: "presence", userId, presence: toPartnerPresence(user, getPresenceStatus(userId)) });
+}
+
+// Applies a connection change and, if it moved the member between online, idle and offline,
+// records when they were last seen and tells their partners
+async function updatePresence(userId: string, change: () => void): Promise<void> {
+  const before = getPresenceStatus(userId);
+  change();
+  if (getPresenceStatus(userId) === before) return;
+  await storage.updateUser(userId, { lastSeenAt: new Date() });
+  await publishPresence(userId);
+}
+
+async function handleClientEvent(userId: string, socket: WebSocket, data: RawData): Promise<void> {
+  let event: RealtimeClientEvent;
+  try {
+    event = realtimeClientEventSchema.parse(JSON.parse(data.toString()));
+  } catch {
+    return; // Ignore anything that isn't a known event
+  }
+
+  if (event.type === "activity") {
+    const idle = event.idle;
+    await updatePresence(userId, () => (idle ? idleSockets.add(socket) : idleSockets.delete(socket)));
+  } else if (event.type === "typing") {
+    const now = Date.now();
+    if (now - (lastTypingAt.get(socket) ?? 0) < TYPING_MIN_INTERVAL_MS) return;
+    lastTypingAt.set(socket, now);
+    const audience = await getTypingAudience(userId, event.partnershipId);
+    publishToUsers(audience, { type: "typing", partnershipId: event.partnershipId, userId });
+  }
+}
+
+function logPresenceError(error: unknown): void {
+  console.error("[REALTIME] Failed to update presence:", error);
+}
+
+function track(userId: string, socket: WebSocket): void {
+  const sockets = socketsByUser.get(userId) ?? new Set<WebSocket>();
+  aliveSockets.add(socket);
+  updatePresence(userId, () => {
+    sockets.add(socket);
+    socketsByUser.set(userId, sockets);
+  }).catch(logPresenceError);
+
+  socket.on("pong", () => aliveSockets.add(socket));
+  socket.on("message", (data) => handleClientEvent(userId, socket, data).catch(logPresenceError));
+  socket.on("close", () => {
+    updatePresence(userId, () => {
+      sockets.delete(socket);
+      if (sockets.size === 0) socketsByUser.delete(userId);
+    }).catch(logPresenceError);
+  });
+  socket.on("error", () => socket.terminate());
+}
+
+/**
+ * Accepts WebSocket connections on /ws from signed-in members. Other upgrade requests
+ * (such as Vite's HMR socket in development) are left to their own handlers.
+ */
+export function setupRealtime(server: Server): void {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== REALTIME_PATH) return;
+
+    const userId = await authenticateUpgrade(req);
+    if (!userId) return rejectUpgrade(socket);
+
+    wss.handleUpgrade(req, socket, head, (ws) => track(userId, ws));
+  });
+
+  // Drop connections that stopped answering pings, e.g. after a network change
+  const heartbeat = setInterval(() => {
+    for (const sockets of Array.from(socketsByUser.values())) {
+      for (const socket of Array.from(sockets)) {
+        if (!aliveSockets.has(socket)) {
+          socket.terminate();
+          continue;
+        }
+        aliveSockets.delete(socket);
+        socket.ping();
+      }
+    }
+  }, HEARTBEAT_MS);
+  server.on("close", () => clearInterval(heartbeat));
+}
+
+export function publishToUsers(userIds: string[], event: RealtimeEvent): void {
+  const payload = JSON.stringify(event);
+  for (const userId of userIds) {
+    for (const socket of Array.from(socketsByUser.get(userId) ?? [])) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(payload);
+      }
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  getPartnershipMemberIds,
+  isMatchingPaused,
+  matchingOptionsSchema,
+  type Exclusion,
+  type Partnership,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { getAvailableUsers } from "./matching";
+import { getMatchingStrategy } from "./matchingStrategies";
+import { notifyMembers, partnershipPeriod } from "./partnerships";
+
+export class RematchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = "RematchError";
+  }
+}
+
+export interface RematchResult {
+  partnership: Partnership | null;
+  // Set when no partner was found and the member is waiting in the pool
+  waiting: boolean;
+}
+
+/**
+ * Looks for a partner for the member among others already waiting, outside the usual
+ * match round. If nobody compatible is waiting, the member joins the waiting pool, where
+ * the next rematch request or match round will pick them up.
+ */
+export async function requestRematch(userId: string): Promise<RematchResult> {
+  const user = await storage.getUser(userId);
+  if (!user || !user.isActive) {
+    throw new RematchError("User not found", 404);
+  }
+  if (isMatchingPaused(user)) {
+    throw new RematchError("Resume matching before asking for a new partner", 409);
+  }
+  if (await storage.getActivePartnershipForUser(userId)) {
+    throw new RematchError("You already have an active partnership", 409);
+  }
+
+  const waitingIds = new Set((await storage.getActiveWaitlist()).map((entry) => entry.userId));
+  const pool = (await getAvailableUsers()).filter((candidate) => candidate.id === userId || waitingIds.has(candidate.id));
+
+  // Never pair someone straight back with the partner they have just left
+  const partnerships = await storage.getUserPartnerships(userId);
+  const lastPartnership = partnerships[partnerships.length - 1];
+  const formerPartners: Exclusion[] = lastPartnership
+    ? getPartnershipMemberIds(lastPartnership)
+        .filter((id) => id !== userId)
+        .map((id) => ({ id: "", userId, excludedUserId: id, reason: null, createdAt: null }))
+    : [];
+
+  const proposal = getMatchingStrategy("scored").propose({
+    candidates: pool,
+    exclusions: [...(await storage.getAllExclusions()), ...formerPartners],
+    history: await storage.getAllPartnerships(),
+    feedback: await storage.getAllPartnershipFeedback(),
+    priorityUserIds: new Set([userId]),
+    options: matchingOptionsSchema.parse({ oddPoolPolicy: "waitlist" }),
+  });
+  const pair = proposal.pairs.find((candidate) => getPartnershipMemberIds(candidate).includes(userId));
+
+  const waitInPool = async (): Promise<RematchResult> => {
+    await storage.upsertWaitlistEntry(
+      userId,
+      "partnership_ended",
+      "You asked for a new partner. You'll be matched as soon as someone compatible is waiting, or in the next round.",
+    );
+    return { partnership: null, waiting: true };
+  };
+  if (!pair) {
+    return await waitInPool();
+  }
+
+  const { startDate, endDate } = partnershipPeriod();
+  const partnership = await storage.createRematchPartnership(getPartnershipMemberIds(pair), startDate, endDate);
+  if (!partnership) {
+    // A concurrent request paired the member or their match first
+    if (await storage.getActivePartnershipForUser(userId)) {
+      throw new RematchError("You already have an active partnership", 409);
+    }
+    return await waitInPool();
+  }
+  await notifyMembers(partnership, null, {
+    type: "rematched",
+    title: "You have a new partner",
+    body: "A new accountability partner was found for you from the waiting pool. Say hello on your dashboard.",
+  });
+  return { partnership, waiting: false };
+}
@@ -48,7 +48,7 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+function createSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   
   let sessionStore: any;
@@ -143,6 +143,9 @@ export function getSession() {
   }
 }
 
+// One shared instance, so the WebSocket server reads the same sessions as Express
+export const getSession = memoize(createSession);
+
 function updateUserSession(
   user: any,
   tokens: client.TokenEndpointResponse & client.TokenEndpointResponseHelpers
@@ -1,12 +1,28 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertUserSchema, insertMessageSchema, insertExclusionSchema, insertReportSchema, insertInviteCodeSchema, insertAnnouncementSchema, registerUserSchema, loginUserSchema, adminBootstrapSchema } from "@shared/schema";
+import { insertUserSchema, sendMessageSchema, insertExclusionSchema, insertReportSchema, insertInviteCodeSchema, insertAnnouncementSchema, registerUserSchema, loginUserSchema, adminBootstrapSchema, matchingOptionsSchema, matchProposalEditSchema, availabilitySchema, matchPreferenceSchema, pauseMatchingSchema, isMatchingPaused, manualPartnershipSchema, partnershipSwapSchema, partnershipTransitionSchema, endPartnershipSchema, insertCheckInSchema, insertGoalSchema, goalUpdateSchema, insertPartnershipFeedbackSchema, partnershipExtensionRequestSchema, partnershipExtensionResponseSchema, insertMeetingSchema, meetingResponseSchema, markMessagesReadSchema, messagePageQuerySchema, editMessageSchema, MAX_ATTACHMENT_BYTES, MAX_THUMBNAIL_BYTES, insertScreeningRuleSchema, getPartnershipMemberIds, getPartnershipWeek, type MatchRound, type Message, type MessageSender, type MessageWithSender, type User } from "@shared/schema";
 import { z } from "zod";
 import { setupAuth, isAuthenticated } from "./replitAuth";
 import bcrypt from "bcryptjs";
 import rateLimit from "express-rate-limit";
 import { validateConnection, isDbConnected, pool } from "./db";
+import { createDraftRound, editRoundProposal, commitRound, cancelRound, MatchRoundError } from "./matchRounds";
+import { getSchedulerConfig, getScheduledJobs } from "./scheduler";
+import { createManualPartnership, swapPartners, reassignPartnership, PartnershipAdminError } from "./partnershipAdmin";
+import { getAvailableUsers } from "./matching";
+import { transitionPartnership, endPartnershipEarly, PartnershipLifecycleError } from "./partnershipLifecycle";
+import { requirePartnershipMember, requireAuditedAdminAccess } from "./partnershipAccess";
+import { requestRematch, RematchError } from "./rematch";
+import { requestExtension, respondToExtension, cancelExtension, PartnershipExtensionError } from "./partnershipExtensions";
+import { proposeMeeting, respondToMeeting, cancelMeeting, MeetingError } from "./meetings";
+import { editMessage, deleteMessage, MessageEditError } from "./messageEdits";
+import { uploadAttachment, addAttachmentThumbnail, removeUnsentAttachment, getAttachmentFile, getAttachmentFileForReview, readAttachmentBody, AttachmentError, type AttachmentFile } from "./attachments";
+import { buildCalendar } from "./ics";
+import { enforceScreening, reportFlaggedMessage, ScreeningError } from "./contentScreening";
+import { setupRealtime, publishToUsers, publishPresence, getPresenceStatus } from "./realtime";
+import { toPartnerPresence } from "./presence";
+import { randomBytes } from "crypto";
 
 // Legacy session tracking for backward compatibility during migration
 const sessions = new Map<string, string>();
@@ -43,6 +59,37 @@ function sanitizeUser(user: any) {
   return sanitized;
 }
 
+// A partner's profile as other members see it; last-seen times only go out through presence
+function toPartnerProfile(user: User | undefined) {
+  if (!user) return null;
+  const { lastSeenAt, ...profile } = sanitizeUser(user);
+  return profile;
+}
+
+// Public sender details sent along with each message
+function toMessageSender(user: User | undefined): MessageSender | null {
+  return user ? { id: user.id, name: user.name, profileImageUrl: user.profileImageUrl } : null;
+}
+
+// Uploaded files never run as part of the app: sandboxed, and served as the type they were checked to be
+function sendAttachmentFile(res: any, file: AttachmentFile) {
+  res.set({
+    "Content-Type": file.contentType,
+    "Content-Disposition": `${file.inline ? "inline" : "attachment"}; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
+    "Content-Security-Policy": "default-src 'none'; sandbox",
+    "X-Content-Type-Options": "nosniff",
+    "Cache-Control": "private, max-age=3600",
+  });
+  res.send(file.data);
+}
+
+// A message as the conversation shows it; attachments of deleted messages are withheld
+async function toMessageWithSender(message: Message): Promise<MessageWithSender> {
+  const sender = toMessageSender(await storage.getUser(message.senderId));
+  const attachments = message.deletedAt ? [] : await storage.getAttachmentSummaries([message.id]);
+  return { ...message, sender, attachments };
+}
+
 // Middleware to set req.userId from either Replit Auth claims or local session
 function setUserId(req: any, res: any, next: any) {
   // Try OIDC claims first
@@ -72,51 +119,6 @@ async function requireAdmin(req: any, res: any, next: any) {
   next();
 }
 
-// Matching algorithm
-async function createMonthlyMatches() {
-  const activeUsers = (await storage.getAllUsers()).filter(user => user.isActive);
-  const currentDate = new Date();
-  const endDate = new Date(currentDate);
-  endDate.setMonth(endDate.getMonth() + 1);
-
-  // Simple matching based on gender preferences and exclusions
-  const availableUsers = [];
-  for (const user of activeUsers) {
-    const activePartnership = await storage.getActivePartnershipForUser(user.id);
-    if (!activePartnership) {
-      availableUsers.push(user);
-    }
-  }
-
-  // Group by gender for matching
-  // Users who selected "prefer_not_to_say" are matched only with others who also selected "prefer_not_to_say"
-  // This ensures both partners are comfortable with gender-flexible matching
-  const usersByGender = availableUsers.reduce((acc, user) => {
-    const gender = user.gender || 'prefer_not_to_say';
-    if (!acc[gender]) acc[gender] = [];
-    acc[gender].push(user);
-    return acc;
-  }, {} as Record<string, any[]>);
-
-  // Create matches within same gender groups
-  for (const [gender, users] of Object.entries(usersByGender)) {
-    const shuffled = [...users].sort(() => Math.random() - 0.5);
-    
-    for (let i = 0; i < shuffled.length - 1; i += 2) {
-      const user1 = shuffled[i];
-      const user2 = shuffled[i + 1];
-      
-      // Check for mutual exclusions
-      const isExcluded1 = await storage.isUserExcluded(user1.id, user2.id);
-      const isExcluded2 = await storage.isUserExcluded(user2.id, user1.id);
-      
-      if (!isExcluded1 && !isExcluded2) {
-        await storage.createPartnership(user1.id, user2.id, currentDate, endDate);
-      }
-    }
-  }
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup Replit Auth with error isolation to ensure static files can still be served
   try {
@@ -518,11 +520,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/users/me", isAuthenticated, setUserId, async (req: any, res: any) => {
     try {
+      const preference = req.body.matchPreference === undefined ? undefined : matchPreferenceSchema.parse(req.body);
+
       // SECURITY: Only allow safe fields to be updated by users
       const allowedUpdates = {
         name: req.body.name,
         gender: req.body.gender,
-        timezone: req.body.timezone
+        timezone: req.body.timezone,
+        availability: req.body.availability === undefined ? undefined : availabilitySchema.parse(req.body.availability),
+        matchPreference: preference?.matchPreference,
+        // Specific genders are only kept for the "specific" preference
+        matchGenders: preference && (preference.matchPreference === "specific" ? preference.matchGenders : []),
+        hidePresence: req.body.hidePresence === undefined ? undefined : z.boolean().parse(req.body.hidePresence)
       };
       // Remove undefined values
       const sanitizedUpdates = Object.fromEntries(
@@ -530,12 +539,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       const user = await storage.updateUser(req.userId, sanitizedUpdates);
-      res.json(user);
+      if (allowedUpdates.hidePresence !== undefined) {
+        // Partners' views switch between the member's status and nothing straight away
+        publishPresence(req.userId).catch((error) => console.error("[REALTIME] Failed to publish presence:", error));
+      }
+      res.json(sanitizeUser(user));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
       res.status(500).json({ message: "Failed to update user" });
     }
   });
 
+  // Members can pause themselves out of upcoming match rounds until a resume date
+  app.post("/api/users/me/pause", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const { resumeAt } = pauseMatchingSchema.parse(req.body);
+      const user = await storage.updateUser(req.userId, { pausedUntil: resumeAt });
+      res.json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to pause matching" });
+    }
+  });
+
+  app.delete("/api/users/me/pause", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const user = await storage.updateUser(req.userId, { pausedUntil: null });
+      res.json(sanitizeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to resume matching" });
+    }
+  });
+
   // Partnership routes
   app.get("/api/partnerships/current", isAuthenticated, setUserId, async (req: any, res: any) => {
     try {
@@ -544,10 +589,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json(null);
       }
 
-      const partnerId = partnership.user1Id === req.userId ? partnership.user2Id : partnership.user1Id;
-      const partner = await storage.getUser(partnerId);
+      // Triads have two partners; `partner` stays the first one for existing clients
+      const partnerIds = getPartnershipMemberIds(partnership).filter(id => id !== req.userId);
+      const partners = (await Promise.all(partnerIds.map(id => storage.getUser(id)))).map(toPartnerProfile);
+      const unreadCount = await storage.getUnreadMessageCount(partnership.id, req.userId);
       
-      res.json({ partnership, partner });
+      res.json({ partnership, partner: partners[0], partners, unreadCount });
     } catch (error) {
       res.status(500).json({ message: "Failed to get current partnership" });
     }
@@ -558,9 +605,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const partnerships = await storage.getUserPartnerships(req.userId);
       const partnershipsWithPartners = await Promise.all(
         partnerships.map(async (partnership) => {
-          const partnerId = partnership.user1Id === req.userId ? partnership.user2Id : partnership.user1Id;
-          const partner = await storage.getUser(partnerId);
-          return { partnership, partner };
+          const partnerIds = getPartnershipMemberIds(partnership).filter(id => id !== req.userId);
+          const partners = (await Promise.all(partnerIds.map(id => storage.getUser(id)))).map(toPartnerProfile);
+          return { partnership, partner: partners[0], partners };
         })
       );
       
@@ -570,249 +617,1175 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/partnerships/:id", isAuthenticated, setUserId, async (req: any, res: any) => {
+  // Status changes go through the lifecycle rules; members and admins have different permissions
+  app.post("/api/partnerships/:id/transition", isAuthenticated, setUserId, async (req: any, res: any) => {
     try {
-      const partnership = await storage.updatePartnership(req.params.id, req.body);
+      const transition = partnershipTransitionSchema.parse(req.body);
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const partnership = await transitionPartnership(req.params.id, user, transition);
       res.json(partnership);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof PartnershipLifecycleError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update partnership" });
     }
   });
 
-  // Message routes
-  app.get("/api/messages/:partnershipId", isAuthenticated, setUserId, async (req: any, res: any) => {
+  app.post("/api/partnerships/:id/end", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const messages = await storage.getPartnershipMessages(req.params.partnershipId);
-      const messagesWithSenders = await Promise.all(
-        messages.map(async (message) => {
-          const sender = await storage.getUser(message.senderId);
-          return { ...message, sender };
-        })
-      );
-      
-      res.json(messagesWithSenders);
+      const options = endPartnershipSchema.parse(req.body);
+      const user = await storage.getUser(req.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const result = await endPartnershipEarly(req.params.id, user, options);
+      res.json(result);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get messages" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof PartnershipLifecycleError || error instanceof RematchError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to end partnership" });
     }
   });
 
-  app.post("/api/messages", isAuthenticated, setUserId, async (req: any, res: any) => {
+  // Current presence of the other members, keyed by user id; null for members who hide it.
+  // Changes after this arrive over the realtime socket.
+  app.get("/api/partnerships/:id/presence", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const messageData = insertMessageSchema.parse(req.body);
-      const message = await storage.createMessage(req.userId, messageData);
-      const sender = await storage.getUser(req.userId);
-      
-      res.json({ ...message, sender });
+      // Like presence events, only shared while the partnership is active
+      if (req.partnership.status !== "active") {
+        return res.json({});
+      }
+      const partnerIds = getPartnershipMemberIds(req.partnership).filter((id: string) => id !== req.userId);
+      const partners = await Promise.all(partnerIds.map((id: string) => storage.getUser(id)));
+      res.json(Object.fromEntries(
+        partnerIds.map((id: string, index: number) => [id, toPartnerPresence(partners[index], getPresenceStatus(id))])
+      ));
     } catch (error) {
-      res.status(400).json({ message: "Failed to send message" });
+      res.status(500).json({ message: "Failed to get presence" });
     }
   });
 
-  // Exclusion routes
-  app.get("/api/exclusions", isAuthenticated, setUserId, async (req: any, res: any) => {
+  app.get("/api/partnerships/:id/status-history", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const exclusions = await storage.getUserExclusions(req.userId);
-      const exclusionsWithUsers = await Promise.all(
-        exclusions.map(async (exclusion) => {
-          const excludedUser = await storage.getUser(exclusion.excludedUserId);
-          return { ...exclusion, excludedUser };
-        })
-      );
-      
-      res.json(exclusionsWithUsers);
+      res.json(await storage.getPartnershipStatusHistory(req.partnership.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get exclusions" });
+      res.status(500).json({ message: "Failed to get partnership status history" });
     }
   });
 
-  app.post("/api/exclusions", isAuthenticated, setUserId, async (req: any, res: any) => {
+  // Weekly check-in routes
+  app.get("/api/partnerships/:id/check-ins", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const exclusionData = insertExclusionSchema.parse(req.body);
-      
-      // Check if exclusion already exists to prevent duplicates
-      const existingExclusion = await storage.isUserExcluded(req.userId, exclusionData.excludedUserId);
-      if (existingExclusion) {
-        return res.status(409).json({ message: "User is already excluded" });
-      }
-      
-      const exclusion = await storage.createExclusion(req.userId, exclusionData);
-      res.json(exclusion);
+      res.json(await storage.getPartnershipCheckIns(req.partnership.id));
     } catch (error) {
-      res.status(400).json({ message: "Failed to create exclusion" });
+      res.status(500).json({ message: "Failed to get check-ins" });
     }
   });
 
-  app.delete("/api/exclusions/:id", isAuthenticated, setUserId, async (req: any, res: any) => {
+  // Members check in for the current week of an active partnership
+  app.post("/api/partnerships/:id/check-ins", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      await storage.removeExclusion(req.params.id);
-      res.json({ message: "Exclusion removed successfully" });
+      const checkInData = insertCheckInSchema.parse(req.body);
+      const partnership = req.partnership;
+      if (partnership.status !== "active") {
+        return res.status(409).json({ message: "Check-ins can only be submitted for an active partnership" });
+      }
+
+      const { week } = getPartnershipWeek(partnership);
+      const checkIn = await storage.upsertCheckIn(partnership.id, req.userId, week, checkInData);
+      res.json(checkIn);
     } catch (error) {
-      res.status(400).json({ message: "Failed to remove exclusion" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to save check-in" });
     }
   });
 
-  // Report routes
-  app.post("/api/reports", isAuthenticated, setUserId, async (req: any, res: any) => {
+  // Shared goal routes
+  app.get("/api/partnerships/:id/goals", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const reportData = insertReportSchema.parse(req.body);
-      const report = await storage.createReport(req.userId, reportData);
-      res.json(report);
+      const goals = await storage.getPartnershipGoals(req.partnership.id);
+      const updates = await storage.getGoalUpdates(goals.map((goal) => goal.id));
+      res.json(goals.map((goal) => ({ ...goal, updates: updates.filter((update) => update.goalId === goal.id) })));
     } catch (error) {
-      res.status(400).json({ message: "Failed to create report" });
+      res.status(500).json({ message: "Failed to get goals" });
     }
   });
 
-  // Admin routes
-  app.get("/api/admin/reports", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  app.post("/api/partnerships/:id/goals", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const reports = await storage.getAllReports();
-      const reportsWithUsers = await Promise.all(
-        reports.map(async (report) => {
-          const reporter = await storage.getUser(report.reporterId);
-          const reportedUser = await storage.getUser(report.reportedUserId);
-          return { ...report, reporter, reportedUser };
-        })
-      );
-      
-      res.json(reportsWithUsers);
+      const goalData = insertGoalSchema.parse(req.body);
+      const partnership = req.partnership;
+      if (partnership.status !== "active") {
+        return res.status(409).json({ message: "Goals can only be added to an active partnership" });
+      }
+
+      const goal = await storage.createGoal(partnership.id, req.userId, goalData);
+      res.status(201).json(goal);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get reports" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to create goal" });
     }
   });
 
-  app.put("/api/admin/reports/:id", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  app.patch("/api/partnerships/:id/goals/:goalId", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const report = await storage.updateReport(req.params.id, req.body);
-      res.json(report);
+      const change = goalUpdateSchema.parse(req.body);
+      const partnership = req.partnership;
+      const goal = await storage.getGoal(req.params.goalId);
+      if (!goal || goal.partnershipId !== partnership.id) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      if (partnership.status !== "active") {
+        return res.status(409).json({ message: "Goals can only be updated while the partnership is active" });
+      }
+
+      const updated = await storage.updateGoal(goal.id, req.userId, change);
+      res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update report" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to update goal" });
     }
   });
 
-  app.get("/api/admin/stats", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  // Extension routes
+  app.get("/api/partnerships/:id/extensions", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const users = await storage.getAllUsers();
-      const activeUsers = users.filter(u => u.isActive);
-      
-      const partnerships = await Promise.all(
-        activeUsers.map(user => storage.getActivePartnershipForUser(user.id))
-      );
-      const activePartnerships = partnerships.filter(p => p !== undefined);
-      
-      const reports = await storage.getAllReports();
-      const pendingReports = reports.filter(r => r.status === "pending");
-      
-      res.json({
-        activeUsers: activeUsers.length,
-        currentPartnerships: activePartnerships.length / 2, // Each partnership involves 2 users
-        pendingReports: pendingReports.length
-      });
+      res.json(await storage.getPartnershipExtensions(req.partnership.id));
     } catch (error) {
-      res.status(500).json({ message: "Failed to get stats" });
+      res.status(500).json({ message: "Failed to get extension requests" });
     }
   });
 
-  app.get("/api/admin/partnerships", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  app.post("/api/partnerships/:id/extensions", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const partnerships = await storage.getAllPartnerships();
-      const partnershipsWithUsers = await Promise.all(
-        partnerships.map(async (partnership) => {
-          const user1 = await storage.getUser(partnership.user1Id);
-          const user2 = await storage.getUser(partnership.user2Id);
-          return {
-            ...partnership,
-            user1: user1 ? { id: user1.id, name: user1.name, email: user1.email } : null,
-            user2: user2 ? { id: user2.id, name: user2.name, email: user2.email } : null
-          };
-        })
-      );
-      res.json(partnershipsWithUsers);
+      const { weeks } = partnershipExtensionRequestSchema.parse(req.body);
+      const extension = await requestExtension(req.partnership, req.userId, weeks);
+      res.status(201).json(extension);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get partnerships" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof PartnershipExtensionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to request extension" });
     }
   });
 
-  app.post("/api/admin/create-matches", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  app.post("/api/partnerships/:id/extensions/:extensionId/respond", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      await createMonthlyMatches();
-      res.json({ message: "Monthly matches created successfully" });
+      const { accept } = partnershipExtensionResponseSchema.parse(req.body);
+      const extension = await respondToExtension(req.partnership, req.params.extensionId, req.userId, accept);
+      res.json(extension);
     } catch (error) {
-      res.status(500).json({ message: "Failed to create matches" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof PartnershipExtensionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to respond to extension" });
     }
   });
 
-  // Invite code management routes (admin only)
-  app.get("/api/admin/invite-codes", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  app.post("/api/partnerships/:id/extensions/:extensionId/cancel", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const inviteCodes = await storage.getAllInviteCodes();
-      const inviteCodesWithUsers = await Promise.all(
-        inviteCodes.map(async (code) => {
-          const creator = await storage.getUser(code.createdBy);
-          const usedByUser = code.usedBy ? await storage.getUser(code.usedBy) : null;
-          return {
-            ...code,
-            creator: creator ? { id: creator.id, username: creator.username, name: creator.name } : null,
-            usedByUser: usedByUser ? { id: usedByUser.id, username: usedByUser.username, name: usedByUser.name } : null
-          };
-        })
-      );
-      res.json(inviteCodesWithUsers);
+      const extension = await cancelExtension(req.partnership, req.params.extensionId, req.userId);
+      res.json(extension);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get invite codes" });
+      if (error instanceof PartnershipExtensionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel extension" });
     }
   });
 
-  app.post("/api/admin/invite-codes", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+  // Meeting routes
+  app.get("/api/partnerships/:id/meetings", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      // Generate a random invite code if not provided
-      const generateInviteCode = () => {
-        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-        let result = '';
-        for (let i = 0; i < 8; i++) {
-          result += chars.charAt(Math.floor(Math.random() * chars.length));
-        }
-        return result;
-      };
-
-      const inviteCodeData = {
-        code: req.body.code || generateInviteCode(),
-        maxUses: req.body.maxUses || "1",
-        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
-      };
-
-      // Check if code already exists
-      const existingCode = await storage.getInviteCode(inviteCodeData.code);
-      if (existingCode) {
-        return res.status(400).json({ message: "Invite code already exists" });
-      }
-
-      const inviteCode = await storage.createInviteCode(req.userId, inviteCodeData);
-      res.json(inviteCode);
+      res.json(await storage.getPartnershipMeetings(req.partnership.id));
     } catch (error) {
-      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create invite code" });
+      res.status(500).json({ message: "Failed to get meetings" });
     }
   });
 
-  app.delete("/api/admin/invite-codes/:code", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+  app.post("/api/partnerships/:id/meetings", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const inviteCode = await storage.deactivateInviteCode(req.params.code);
-      if (!inviteCode) {
-        return res.status(404).json({ message: "Invite code not found" });
-      }
-      res.json({ message: "Invite code deactivated successfully" });
+      const proposal = insertMeetingSchema.parse(req.body);
+      const meeting = await proposeMeeting(req.partnership, req.userId, proposal);
+      res.status(201).json(meeting);
     } catch (error) {
-      res.status(500).json({ message: "Failed to deactivate invite code" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof MeetingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to propose meeting" });
     }
   });
 
-  // Announcement routes
-  // Public routes - accessible to all authenticated users
-  app.get("/api/announcements/active", async (req, res) => {
+  app.post("/api/partnerships/:id/meetings/:meetingId/respond", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
     try {
-      const announcements = await storage.getActiveAnnouncements();
-      res.json(announcements);
+      const { accept } = meetingResponseSchema.parse(req.body);
+      const meeting = await respondToMeeting(req.partnership, req.params.meetingId, req.userId, accept);
+      res.json(meeting);
     } catch (error) {
-      res.status(500).json({ message: "Failed to get active announcements" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof MeetingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to respond to meeting" });
+    }
+  });
+
+  app.post("/api/partnerships/:id/meetings/:meetingId/cancel", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
+    try {
+      const meeting = await cancelMeeting(req.partnership, req.params.meetingId, req.userId);
+      res.json(meeting);
+    } catch (error) {
+      if (error instanceof MeetingError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel meeting" });
+    }
+  });
+
+  // Calendar feed routes. The feed URL itself is the credential, so calendar apps can
+  // subscribe without a session; resetting the token revokes every existing subscription.
+  const calendarFeedUrl = (req: any, token: string) => `${req.protocol}://${req.get("host")}/api/calendar/${token}.ics`;
+  const generateCalendarToken = () => randomBytes(24).toString("base64url");
+
+  app.get("/api/calendar/feed", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const token = (await storage.getCalendarFeedToken(req.userId)) ??
+        (await storage.setCalendarFeedToken(req.userId, generateCalendarToken()));
+      res.json({ url: calendarFeedUrl(req, token) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get calendar feed" });
+    }
+  });
+
+  app.post("/api/calendar/feed/reset", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const token = await storage.setCalendarFeedToken(req.userId, generateCalendarToken());
+      res.json({ url: calendarFeedUrl(req, token) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reset calendar feed" });
+    }
+  });
+
+  app.get("/api/calendar/:token.ics", async (req: any, res: any) => {
+    try {
+      const userId = await storage.getUserIdByCalendarFeedToken(req.params.token);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user || !user.isActive) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+
+      const partnerships = await storage.getUserPartnerships(user.id);
+      const meetings = await storage.getMeetingsForPartnerships(partnerships.map((partnership) => partnership.id), "accepted");
+      const events = await Promise.all(
+        meetings.map(async (meeting) => {
+          const partnership = partnerships.find((candidate) => candidate.id === meeting.partnershipId)!;
+          const partnerIds = getPartnershipMemberIds(partnership).filter(id => id !== user.id);
+          const partners = await Promise.all(partnerIds.map(id => storage.getUser(id)));
+          return {
+            uid: `${meeting.id}@supportmatch`,
+            summary: `${meeting.title} with ${partners.map((partner) => partner?.name || "TI User").join(" and ")}`,
+            description: meeting.notes,
+            start: new Date(meeting.startsAt),
+            durationMinutes: meeting.durationMinutes,
+            timezone: meeting.timezone,
+            // Weekly meetings stop with the partnership, including after extensions or ending early
+            weeklyUntil: meeting.recurrence === "weekly" ? new Date(partnership.endDate) : null,
+            updatedAt: new Date(meeting.updatedAt ?? meeting.createdAt ?? Date.now()),
+          };
+        })
+      );
+
+      res.set("Content-Type", "text/calendar; charset=utf-8");
+      res.set("Cache-Control", "no-cache");
+      res.send(buildCalendar("Support Match meetings", events));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build calendar feed" });
+    }
+  });
+
+  // End-of-partnership feedback routes
+  const FEEDBACK_WINDOW_DAYS = 30;
+
+  // Ended partnerships from the last month the member has not given feedback on yet
+  app.get("/api/feedback/pending", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const since = new Date(Date.now() - FEEDBACK_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const now = new Date();
+      const answered = new Set((await storage.getUserPartnershipFeedback(req.userId)).map((entry) => entry.partnershipId));
+      const pending = (await storage.getUserPartnerships(req.userId)).filter((partnership) =>
+        (partnership.status === "completed" || partnership.status === "ended_early") &&
+        new Date(partnership.endDate) <= now &&
+        new Date(partnership.endDate) >= since &&
+        !answered.has(partnership.id)
+      );
+
+      const pendingWithPartners = await Promise.all(
+        pending.map(async (partnership) => {
+          const partnerIds = getPartnershipMemberIds(partnership).filter(id => id !== req.userId);
+          const partners = await Promise.all(partnerIds.map(id => storage.getUser(id)));
+          return {
+            partnership,
+            partners: partners
+              .filter((partner) => !!partner)
+              .map((partner) => ({ id: partner!.id, name: partner!.name }))
+          };
+        })
+      );
+      res.json(pendingWithPartners);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get pending feedback" });
+    }
+  });
+
+  app.post("/api/partnerships/:id/feedback", isAuthenticated, setUserId, requirePartnershipMember(), async (req: any, res: any) => {
+    try {
+      const feedbackData = insertPartnershipFeedbackSchema.parse(req.body);
+      const partnership = req.partnership;
+      if (partnership.status !== "completed" && partnership.status !== "ended_early") {
+        return res.status(409).json({ message: "Feedback can be given once the partnership has ended" });
+      }
+      const existing = await storage.getUserPartnershipFeedback(req.userId);
+      if (existing.some((entry) => entry.partnershipId === partnership.id)) {
+        return res.status(409).json({ message: "You have already given feedback for this partnership" });
+      }
+
+      const feedback = await storage.createPartnershipFeedback(partnership.id, req.userId, feedbackData);
+      res.status(201).json(feedback);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to save feedback" });
+    }
+  });
+
+  // Message routes
+  app.get("/api/messages/:partnershipId", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      const query = messagePageQuerySchema.parse(req.query);
+      const page = await storage.getPartnershipMessagePage(req.partnership.id, query);
+      if (!page) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to get messages" });
+    }
+  });
+
+  app.post("/api/messages", isAuthenticated, setUserId, requirePartnershipMember((req) => req.body?.partnershipId), async (req: any, res: any) => {
+    try {
+      const { attachmentIds, acknowledgeWarnings, ...messageData } = sendMessageSchema.parse(req.body);
+      const flaggedBy = await enforceScreening(messageData.content, acknowledgeWarnings);
+      const message = await storage.createMessage(req.userId, messageData, attachmentIds);
+      if (!message) {
+        return res.status(400).json({ message: "Attachments must be your own uploads that haven't been sent yet" });
+      }
+      if (flaggedBy.length > 0) {
+        await reportFlaggedMessage(message, flaggedBy);
+      }
+      const messageWithSender = await toMessageWithSender(message);
+
+      // Push to every member's open sockets; the sender's other tabs update too
+      publishToUsers(getPartnershipMemberIds(req.partnership), {
+        type: "message",
+        partnershipId: req.partnership.id,
+        message: messageWithSender,
+      });
+      
+      res.json(messageWithSender);
+    } catch (error) {
+      // The client offers to send anyway when the response says it was only a warning
+      if (error instanceof ScreeningError) {
+        return res.status(error.status).json({ message: error.message, screening: error.action });
+      }
+      res.status(400).json({ message: "Failed to send message" });
+    }
+  });
+
+  // Members revise their own messages for a short while after sending; the earlier content
+  // is kept for moderators and the change is pushed like a new message
+  app.patch("/api/messages/:partnershipId/:messageId", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      const { content, acknowledgeWarnings } = editMessageSchema.parse(req.body);
+      const flaggedBy = await enforceScreening(content, acknowledgeWarnings);
+      const message = await editMessage(req.partnership, req.params.messageId, req.userId, content);
+      if (flaggedBy.length > 0) {
+        await reportFlaggedMessage(message, flaggedBy);
+      }
+      const messageWithSender = await toMessageWithSender(message);
+
+      publishToUsers(getPartnershipMemberIds(req.partnership), {
+        type: "message_updated",
+        partnershipId: req.partnership.id,
+        message: messageWithSender,
+      });
+
+      res.json(messageWithSender);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof MessageEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof ScreeningError) {
+        return res.status(error.status).json({ message: error.message, screening: error.action });
+      }
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  app.delete("/api/messages/:partnershipId/:messageId", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      const message = await deleteMessage(req.partnership, req.params.messageId, req.userId);
+      const messageWithSender = await toMessageWithSender(message);
+
+      publishToUsers(getPartnershipMemberIds(req.partnership), {
+        type: "message_updated",
+        partnershipId: req.partnership.id,
+        message: messageWithSender,
+      });
+
+      res.json(messageWithSender);
+    } catch (error) {
+      if (error instanceof MessageEditError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  // Files are uploaded as the raw request body (?name= carries the file name) before the
+  // message that includes them is sent
+  app.post("/api/messages/:partnershipId/attachments", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), readAttachmentBody(MAX_ATTACHMENT_BYTES), async (req: any, res: any) => {
+    try {
+      const attachment = await uploadAttachment(req.partnership, req.userId, req.query.name, req.get("content-type"), req.body);
+      res.status(201).json(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+
+  app.put("/api/messages/:partnershipId/attachments/:attachmentId/thumbnail", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), readAttachmentBody(MAX_THUMBNAIL_BYTES), async (req: any, res: any) => {
+    try {
+      const attachment = await addAttachmentThumbnail(req.partnership, req.params.attachmentId, req.userId, req.body);
+      res.json(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to save thumbnail" });
+    }
+  });
+
+  // Only the uploader's own unsent uploads can be removed; sent attachments go with their message
+  app.delete("/api/messages/:partnershipId/attachments/:attachmentId", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      await removeUnsentAttachment(req.partnership, req.params.attachmentId, req.userId);
+      res.json({ message: "Attachment removed successfully" });
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to remove attachment" });
+    }
+  });
+
+  // Downloads go through the session like every other route, so links only work for members
+  app.get("/api/messages/:partnershipId/attachments/:attachmentId/:variant(file|thumbnail)", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      const file = await getAttachmentFile(req.partnership, req.params.attachmentId, req.userId, req.params.variant === "thumbnail");
+      sendAttachmentFile(res, file);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to get attachment" });
+    }
+  });
+
+  app.get("/api/messages/:partnershipId/read-cursors", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      res.json(await storage.getReadCursors(req.partnership.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get read receipts" });
+    }
+  });
+
+  app.post("/api/messages/:partnershipId/read", isAuthenticated, setUserId, requirePartnershipMember((req) => req.params.partnershipId), async (req: any, res: any) => {
+    try {
+      const { messageId } = markMessagesReadSchema.parse(req.body);
+      const message = await storage.getMessage(messageId);
+      if (!message || message.partnershipId !== req.partnership.id) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+
+      const cursor = await storage.markMessagesRead(req.partnership.id, req.userId, message.id);
+      // Only moving the cursor forward is news to the other members
+      if (cursor) {
+        publishToUsers(getPartnershipMemberIds(req.partnership), {
+          type: "read",
+          partnershipId: req.partnership.id,
+          cursor,
+        });
+      }
+
+      const unreadCount = await storage.getUnreadMessageCount(req.partnership.id, req.userId);
+      res.json({ unreadCount });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to mark messages read" });
+    }
+  });
+
+  // Waitlist routes
+  app.get("/api/waitlist/me", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const entry = await storage.getActiveWaitlistEntryForUser(req.userId);
+      res.json(entry || null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get waitlist status" });
+    }
+  });
+
+  // Out-of-cycle rematch from the waiting pool
+  app.post("/api/rematch", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const result = await requestRematch(req.userId);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof RematchError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to request a new partner" });
+    }
+  });
+
+  // Notification routes
+  app.get("/api/notifications", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const notifications = await storage.getUnreadNotifications(req.userId);
+      res.json(notifications);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get notifications" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const notification = await storage.markNotificationRead(req.params.id, req.userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update notification" });
+    }
+  });
+
+  // Exclusion routes
+  app.get("/api/exclusions", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const exclusions = await storage.getUserExclusions(req.userId);
+      const exclusionsWithUsers = await Promise.all(
+        exclusions.map(async (exclusion) => {
+          const excludedUser = await storage.getUser(exclusion.excludedUserId);
+          return { ...exclusion, excludedUser };
+        })
+      );
+      
+      res.json(exclusionsWithUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get exclusions" });
+    }
+  });
+
+  app.post("/api/exclusions", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      const exclusionData = insertExclusionSchema.parse(req.body);
+      
+      // Check if exclusion already exists to prevent duplicates
+      const existingExclusion = await storage.isUserExcluded(req.userId, exclusionData.excludedUserId);
+      if (existingExclusion) {
+        return res.status(409).json({ message: "User is already excluded" });
+      }
+      
+      const exclusion = await storage.createExclusion(req.userId, exclusionData);
+      res.json(exclusion);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create exclusion" });
+    }
+  });
+
+  app.delete("/api/exclusions/:id", isAuthenticated, setUserId, async (req: any, res: any) => {
+    try {
+      await storage.removeExclusion(req.params.id);
+      res.json({ message: "Exclusion removed successfully" });
+    } catch (error) {
+      res.status(400).json({ message: "Failed to remove exclusion" });
+    }
+  });
+
+  // Report routes
+  // Reports may name a partnership; the reporter must be in it, and so must the reported member
+  app.post("/api/reports", isAuthenticated, setUserId, requirePartnershipMember((req) => req.body?.partnershipId, { optional: true }), async (req: any, res: any) => {
+    try {
+      const reportData = insertReportSchema.parse(req.body);
+      if (req.partnership && !getPartnershipMemberIds(req.partnership).includes(reportData.reportedUserId)) {
+        return res.status(403).json({ message: "The reported member is not in this partnership" });
+      }
+      const report = await storage.createReport(req.userId, reportData);
+      res.json(report);
+    } catch (error) {
+      res.status(400).json({ message: "Failed to create report" });
+    }
+  });
+
+  // Admin routes
+  app.get("/api/admin/reports", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const reports = await storage.getAllReports();
+      const reportsWithUsers = await Promise.all(
+        reports.map(async (report) => {
+          // Automated reports have no reporter; they carry the flagged message instead
+          const reporter = report.reporterId ? await storage.getUser(report.reporterId) : null;
+          const reportedUser = await storage.getUser(report.reportedUserId);
+          const flagged = report.messageId ? await storage.getMessage(report.messageId) : undefined;
+          const message = flagged ? { ...flagged, attachments: await storage.getAttachmentSummaries([flagged.id]) } : null;
+          return { ...report, reporter, reportedUser, message };
+        })
+      );
+      
+      res.json(reportsWithUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get reports" });
+    }
+  });
+
+  app.put("/api/admin/reports/:id", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const report = await storage.updateReport(req.params.id, req.body);
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update report" });
+    }
+  });
+
+  // Earlier content of edited and deleted messages, only while a report about the partnership is open
+  app.get("/api/admin/reports/:id/message-revisions", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (!report.partnershipId) {
+        return res.status(400).json({ message: "This report is not about a partnership" });
+      }
+      if (report.status !== "pending" && report.status !== "investigating") {
+        return res.status(409).json({ message: "Message history is only available while the report is open" });
+      }
+
+      await storage.createAuditLogEntry({
+        adminId: req.userId,
+        action: "report.view_message_revisions",
+        targetType: "partnership",
+        targetId: report.partnershipId,
+        details: { reportId: report.id },
+      });
+      res.json(await storage.getRevisedMessages(report.partnershipId));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get message history" });
+    }
+  });
+
+  // An attachment in the reported partnership, as uploaded rather than its sender-made thumbnail
+  app.get("/api/admin/reports/:id/attachments/:attachmentId", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const report = await storage.getReport(req.params.id);
+      if (!report) {
+        return res.status(404).json({ message: "Report not found" });
+      }
+      if (!report.partnershipId) {
+        return res.status(400).json({ message: "This report is not about a partnership" });
+      }
+      if (report.status !== "pending" && report.status !== "investigating") {
+        return res.status(409).json({ message: "Attachments are only available while the report is open" });
+      }
+
+      const file = await getAttachmentFileForReview(report.partnershipId, req.params.attachmentId);
+      await storage.createAuditLogEntry({
+        adminId: req.userId,
+        action: "report.view_attachment",
+        targetType: "partnership",
+        targetId: report.partnershipId,
+        details: { reportId: report.id, attachmentId: req.params.attachmentId },
+      });
+      sendAttachmentFile(res, file);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to get attachment" });
+    }
+  });
+
+  app.get("/api/admin/stats", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
+      const activeUsers = users.filter(u => u.isActive);
+      const pausedUsers = activeUsers.filter(u => isMatchingPaused(u));
+      
+      const activePartnerships = await storage.getActivePartnerships();
+      const waitlist = await storage.getActiveWaitlist();
+      
+      const reports = await storage.getAllReports();
+      const pendingReports = reports.filter(r => r.status === "pending");
+      
+      res.json({
+        activeUsers: activeUsers.length,
+        pausedUsers: pausedUsers.length,
+        currentPartnerships: activePartnerships.length,
+        waitlistedUsers: waitlist.length,
+        pendingReports: pendingReports.length
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get stats" });
+    }
+  });
+
+  app.get("/api/admin/partnerships", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const partnerships = await storage.getAllPartnerships();
+      const partnershipsWithUsers = await Promise.all(
+        partnerships.map(async (partnership) => {
+          const user1 = await storage.getUser(partnership.user1Id);
+          const user2 = await storage.getUser(partnership.user2Id);
+          const user3 = partnership.user3Id ? await storage.getUser(partnership.user3Id) : undefined;
+          const summarize = (member: typeof user1) =>
+            member ? { id: member.id, name: member.name, email: member.email, isPaused: isMatchingPaused(member) } : null;
+          return {
+            ...partnership,
+            user1: summarize(user1),
+            user2: summarize(user2),
+            user3: summarize(user3)
+          };
+        })
+      );
+      res.json(partnershipsWithUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get partnerships" });
+    }
+  });
+
+  // Members who could be paired manually right now
+  app.get("/api/admin/available-users", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const users = await getAvailableUsers();
+      res.json(users.map((user) => ({ id: user.id, name: user.name, email: user.email })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get available users" });
+    }
+  });
+
+  app.post("/api/admin/partnerships", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const pair = manualPartnershipSchema.parse(req.body);
+      const partnership = await createManualPartnership(req.userId, pair);
+      res.status(201).json(partnership);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof PartnershipAdminError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create partnership" });
+    }
+  });
+
+  app.post("/api/admin/partnerships/swap", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const swap = partnershipSwapSchema.parse(req.body);
+      const partnerships = await swapPartners(req.userId, swap);
+      res.json(partnerships);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof PartnershipAdminError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to swap partners" });
+    }
+  });
+
+  app.post("/api/admin/partnerships/:id/reassign", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const result = await reassignPartnership(req.userId, req.params.id);
+      res.json(result);
+    } catch (error) {
+      if (error instanceof PartnershipAdminError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to reassign partnership" });
+    }
+  });
+
+  // Aggregate survey results plus the most recent responses
+  app.get("/api/admin/feedback", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const feedback = await storage.getAllPartnershipFeedback();
+      const total = feedback.length;
+      const summary = {
+        responses: total,
+        averageRating: total ? Math.round((feedback.reduce((sum, entry) => sum + entry.rating, 0) / total) * 10) / 10 : null,
+        wouldMatchAgainRate: total ? Math.round((feedback.filter((entry) => entry.wouldMatchAgain).length / total) * 100) : null,
+        ratingCounts: [1, 2, 3, 4, 5].map((rating) => feedback.filter((entry) => entry.rating === rating).length)
+      };
+
+      const recent = await Promise.all(
+        feedback.slice(0, 50).map(async (entry) => {
+          const member = await storage.getUser(entry.userId);
+          return {
+            ...entry,
+            member: member ? { id: member.id, name: member.name, email: member.email } : null
+          };
+        })
+      );
+      res.json({ summary, recent });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get feedback" });
+    }
+  });
+
+  // Admin views of a partnership's private data; each request needs a reason and is audited
+  app.get("/api/admin/partnerships/:id/messages", isAuthenticated, setUserId, requireAdmin, requireAuditedAdminAccess("partnership.view_messages"), async (req: any, res: any) => {
+    try {
+      const query = messagePageQuerySchema.parse(req.query);
+      const page = await storage.getPartnershipMessagePage(req.partnership.id, query);
+      if (!page) {
+        return res.status(404).json({ message: "Message not found" });
+      }
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to get messages" });
+    }
+  });
+
+  app.get("/api/admin/partnerships/:id/status-history", isAuthenticated, setUserId, requireAdmin, requireAuditedAdminAccess("partnership.view_status_history"), async (req: any, res: any) => {
+    try {
+      res.json(await storage.getPartnershipStatusHistory(req.partnership.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get partnership status history" });
+    }
+  });
+
+  app.get("/api/admin/partnerships/:id/check-ins", isAuthenticated, setUserId, requireAdmin, requireAuditedAdminAccess("partnership.view_check_ins"), async (req: any, res: any) => {
+    try {
+      res.json(await storage.getPartnershipCheckIns(req.partnership.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get check-ins" });
+    }
+  });
+
+  app.get("/api/admin/audit-log", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const entries = await storage.getAuditLog(100);
+      const entriesWithAdmin = await Promise.all(
+        entries.map(async (entry) => {
+          const admin = await storage.getUser(entry.adminId);
+          return {
+            ...entry,
+            admin: admin ? { id: admin.id, name: admin.name, email: admin.email } : null
+          };
+        })
+      );
+      res.json(entriesWithAdmin);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get audit log" });
+    }
+  });
+
+  // Resolves every user referenced by a round so the preview can show names
+  const withRoundMembers = async (round: MatchRound) => {
+    const memberIds = new Set<string>([
+      ...round.proposal.pairs.flatMap((pair) => getPartnershipMemberIds(pair)),
+      ...round.proposal.unmatched.map((entry) => entry.userId),
+    ]);
+    const members: Record<string, { id: string; name: string | null; email: string | null }> = {};
+    for (const memberId of Array.from(memberIds)) {
+      const member = await storage.getUser(memberId);
+      if (member) {
+        members[memberId] = { id: member.id, name: member.name, email: member.email };
+      }
+    }
+    const creator = round.createdBy ? await storage.getUser(round.createdBy) : undefined;
+    return {
+      ...round,
+      members,
+      creator: creator ? { id: creator.id, name: creator.name, email: creator.email } : null
+    };
+  };
+
+  app.get("/api/admin/match-rounds", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const rounds = await storage.getAllMatchRounds();
+      const roundsWithCreator = await Promise.all(
+        rounds.map(async (round) => {
+          const creator = round.createdBy ? await storage.getUser(round.createdBy) : undefined;
+          return {
+            ...round,
+            creator: creator ? { id: creator.id, name: creator.name, email: creator.email } : null
+          };
+        })
+      );
+      res.json(roundsWithCreator);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get match rounds" });
+    }
+  });
+
+  app.get("/api/admin/match-rounds/:id", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const round = await storage.getMatchRound(req.params.id);
+      if (!round) {
+        return res.status(404).json({ message: "Match round not found" });
+      }
+      res.json(await withRoundMembers(round));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get match round" });
+    }
+  });
+
+  app.post("/api/admin/match-rounds", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const options = matchingOptionsSchema.parse(req.body ?? {});
+      const round = await createDraftRound(options, req.userId);
+      res.status(201).json(await withRoundMembers(round));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to create match round" });
+    }
+  });
+
+  app.put("/api/admin/match-rounds/:id/proposal", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const edit = matchProposalEditSchema.parse(req.body);
+      const round = await editRoundProposal(req.params.id, edit);
+      res.json(await withRoundMembers(round));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      if (error instanceof MatchRoundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update match round" });
+    }
+  });
+
+  app.post("/api/admin/match-rounds/:id/commit", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const { round, partnerships } = await commitRound(req.params.id, req.userId);
+      res.json({ ...round, partnershipIds: partnerships.map((partnership) => partnership.id) });
+    } catch (error) {
+      if (error instanceof MatchRoundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to commit match round" });
+    }
+  });
+
+  app.post("/api/admin/match-rounds/:id/cancel", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const round = await cancelRound(req.params.id);
+      res.json(round);
+    } catch (error) {
+      if (error instanceof MatchRoundError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to cancel match round" });
+    }
+  });
+
+  app.get("/api/admin/scheduler", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const { enabled, matchRoundIntervalDays } = getSchedulerConfig();
+      const runs = await storage.getRecentJobRuns(50);
+      res.json({ enabled, matchRoundIntervalDays, jobs: getScheduledJobs(), runs });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get scheduler status" });
+    }
+  });
+
+  // Invite code management routes (admin only)
+  app.get("/api/admin/invite-codes", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const inviteCodes = await storage.getAllInviteCodes();
+      const inviteCodesWithUsers = await Promise.all(
+        inviteCodes.map(async (code) => {
+          const creator = await storage.getUser(code.createdBy);
+          const usedByUser = code.usedBy ? await storage.getUser(code.usedBy) : null;
+          return {
+            ...code,
+            creator: creator ? { id: creator.id, username: creator.username, name: creator.name } : null,
+            usedByUser: usedByUser ? { id: usedByUser.id, username: usedByUser.username, name: usedByUser.name } : null
+          };
+        })
+      );
+      res.json(inviteCodesWithUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get invite codes" });
+    }
+  });
+
+  app.post("/api/admin/invite-codes", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      // Generate a random invite code if not provided
+      const generateInviteCode = () => {
+        const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+        let result = '';
+        for (let i = 0; i < 8; i++) {
+          result += chars.charAt(Math.floor(Math.random() * chars.length));
+        }
+        return result;
+      };
+
+      const inviteCodeData = {
+        code: req.body.code || generateInviteCode(),
+        maxUses: req.body.maxUses || "1",
+        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+      };
+
+      // Check if code already exists
+      const existingCode = await storage.getInviteCode(inviteCodeData.code);
+      if (existingCode) {
+        return res.status(400).json({ message: "Invite code already exists" });
+      }
+
+      const inviteCode = await storage.createInviteCode(req.userId, inviteCodeData);
+      res.json(inviteCode);
+    } catch (error) {
+      res.status(400).json({ message: error instanceof Error ? error.message : "Failed to create invite code" });
+    }
+  });
+
+  app.delete("/api/admin/invite-codes/:code", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const inviteCode = await storage.deactivateInviteCode(req.params.code);
+      if (!inviteCode) {
+        return res.status(404).json({ message: "Invite code not found" });
+      }
+      res.json({ message: "Invite code deactivated successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to deactivate invite code" });
+    }
+  });
+
+  // Announcement routes
+  // Public routes - accessible to all authenticated users
+  app.get("/api/announcements/active", async (req, res) => {
+    try {
+      const announcements = await storage.getActiveAnnouncements();
+      res.json(announcements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get active announcements" });
     }
   });
 
@@ -834,6 +1807,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin routes - content screening rules
+  app.get("/api/admin/screening-rules", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getAllScreeningRules());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get screening rules" });
+    }
+  });
+
+  app.post("/api/admin/screening-rules", isAuthenticated, setUserId, requireAdmin, async (req: any, res: any) => {
+    try {
+      const rule = insertScreeningRuleSchema.parse(req.body);
+      res.status(201).json(await storage.createScreeningRule(req.userId, rule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to create screening rule" });
+    }
+  });
+
+  app.put("/api/admin/screening-rules/:id", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const rule = await storage.updateScreeningRule(req.params.id, insertScreeningRuleSchema.parse(req.body));
+      if (!rule) {
+        return res.status(404).json({ message: "Screening rule not found" });
+      }
+      res.json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Invalid input", 
+          errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`) 
+        });
+      }
+      res.status(500).json({ message: "Failed to update screening rule" });
+    }
+  });
+
+  app.delete("/api/admin/screening-rules/:id", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
+    try {
+      const rule = await storage.deleteScreeningRule(req.params.id);
+      if (!rule) {
+        return res.status(404).json({ message: "Screening rule not found" });
+      }
+      res.json({ message: "Screening rule deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete screening rule" });
+    }
+  });
+
   // Admin routes - announcement management
   app.get("/api/admin/announcements", isAuthenticated, setUserId, requireAdmin, async (req, res) => {
     try {
@@ -929,5 +1956,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  setupRealtime(httpServer);
   return httpServer;
 }
@@ -0,0 +1,174 @@
+import { matchingOptionsSchema } from "@shared/schema";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { runMatchRound } from "./matchRounds";
+import { deleteUnsentAttachments } from "./attachments";
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+interface ScheduledJob {
+  name: string;
+  description: string;
+  // Minimum time between two runs of the job, including failed ones
+  minIntervalMs: number;
+  // Optional extra condition checked once the minimum interval has passed
+  isDue?: (now: Date) => Promise<boolean>;
+  // Returns a short summary stored with the run
+  run: (now: Date) => Promise<string>;
+}
+
+export interface SchedulerConfig {
+  enabled: boolean;
+  pollIntervalMs: number;
+  matchRoundIntervalDays: number;
+  expiryIntervalMinutes: number;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    console.warn(`[Scheduler] Ignoring invalid ${name}=${value}, using ${fallback}`);
+    return fallback;
+  }
+  return parsed;
+}
+
+export function getSchedulerConfig(): SchedulerConfig {
+  return {
+    enabled: process.env.SCHEDULER_ENABLED !== "false" && !!pool,
+    pollIntervalMs: Math.max(readNumber("SCHEDULER_POLL_SECONDS", 60), 5) * 1000,
+    // Automatic rounds skip the draft review, so they stay off (0) until an interval is set
+    matchRoundIntervalDays: readNumber("MATCH_ROUND_INTERVAL_DAYS", 0),
+    expiryIntervalMinutes: readNumber("PARTNERSHIP_EXPIRY_INTERVAL_MINUTES", 60),
+  };
+}
+
+function buildJobs(config: SchedulerConfig): ScheduledJob[] {
+  const jobs: ScheduledJob[] = [
+    {
+      name: "expire-partnerships",
+      description: "Mark active partnerships past their end date as completed",
+      minIntervalMs: config.expiryIntervalMinutes * MINUTE,
+      run: async (now) => {
+        const expired = await storage.completeExpiredPartnerships(now);
+        return `${expired.length} partnership(s) completed`;
+      },
+    },
+    {
+      name: "delete-unsent-attachments",
+      description: "Delete uploads that were never sent with a message, and their files",
+      minIntervalMs: 60 * MINUTE,
+      run: async (now) => {
+        const deleted = await deleteUnsentAttachments(now);
+        return `${deleted} unsent attachment(s) deleted`;
+      },
+    },
+  ];
+
+  if (config.matchRoundIntervalDays > 0) {
+    jobs.push({
+      name: "match-round",
+      description: `Create and commit a match round every ${config.matchRoundIntervalDays} day(s)`,
+      // Failed rounds are retried hourly rather than on every poll
+      minIntervalMs: 60 * MINUTE,
+      // Manual rounds count too, so an admin run pushes the next automatic one back
+      isDue: async (now) => {
+        const latest = await storage.getLatestCommittedMatchRound();
+        if (!latest?.committedAt) return true;
+        return now.getTime() - new Date(latest.committedAt).getTime() >= config.matchRoundIntervalDays * DAY;
+      },
+      run: async () => {
+        const { round, partnerships } = await runMatchRound(matchingOptionsSchema.parse({}), null);
+        return `Round ${round.id}: ${partnerships.length} partnership(s) created, ${round.proposal.unmatched.length} waitlisted`;
+      },
+    });
+  }
+
+  return jobs;
+}
+
+async function isJobDue(job: ScheduledJob, now: Date): Promise<boolean> {
+  const lastRun = await storage.getLatestJobRun(job.name);
+  if (lastRun && now.getTime() - new Date(lastRun.startedAt).getTime() < job.minIntervalMs) {
+    return false;
+  }
+  return job.isDue ? await job.isDue(now) : true;
+}
+
+/**
+ * Runs a job while holding a Postgres advisory lock keyed on its name, so only one
+ * server instance runs it at a time. Session-level locks belong to a connection,
+ * so the lock is taken and released on a dedicated pooled client.
+ */
+async function runJobWithLock(job: ScheduledJob): Promise<void> {
+  if (!pool) return;
+  const client = await pool.connect();
+  try {
+    const lock = await client.query("SELECT pg_try_advisory_lock(hashtext($1)) AS locked", [job.name]);
+    if (!lock.rows[0]?.locked) return;
+
+    try {
+      // Another instance may have finished this job between our check and taking the lock
+      const now = new Date();
+      if (!(await isJobDue(job, now))) return;
+
+      const run = await storage.createJobRun(job.name);
+      try {
+        const summary = await job.run(now);
+        await storage.finishJobRun(run.id, "succeeded", summary, null);
+        console.log(`[Scheduler] ${job.name} succeeded: ${summary}`);
+      } catch (error: any) {
+        await storage.finishJobRun(run.id, "failed", null, error?.message || String(error));
+        console.error(`[Scheduler] ${job.name} failed:`, error?.message || error);
+      }
+    } finally {
+      await client.query("SELECT pg_advisory_unlock(hashtext($1))", [job.name]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+async function tick(jobs: ScheduledJob[]): Promise<void> {
+  // Skip overlapping ticks when a job takes longer than the poll interval
+  if (ticking) return;
+  ticking = true;
+  try {
+    // Jobs run in order, so expired partnerships are completed before members are re-matched
+    for (const job of jobs) {
+      try {
+        if (await isJobDue(job, new Date())) {
+          await runJobWithLock(job);
+        }
+      } catch (error: any) {
+        console.warn(`[Scheduler] Could not check ${job.name} (non-fatal):`, error?.message || error);
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+export function getScheduledJobs(): { name: string; description: string }[] {
+  return buildJobs(getSchedulerConfig()).map(({ name, description }) => ({ name, description }));
+}
+
+export function startScheduler(): void {
+  const config = getSchedulerConfig();
+  if (!config.enabled) {
+    console.log("[Scheduler] Disabled (SCHEDULER_ENABLED=false or no database configured)");
+    return;
+  }
+  if (timer) return;
+
+  const jobs = buildJobs(config);
+  console.log(`[Scheduler] Started with jobs: ${jobs.map((job) => job.name).join(", ")}`);
+  timer = setInterval(() => void tick(jobs), config.pollIntervalMs);
+  void tick(jobs);
+}
@@ -1,6 +1,62 @@
-import { type User, type InsertUser, type UpsertUser, type RegisterUser, type Partnership, type Message, type InsertMessage, type Exclusion, type InsertExclusion, type Report, type InsertReport, type InviteCode, type InsertInviteCode, type Announcement, type InsertAnnouncement, users, partnerships, messages, exclusions, reports, inviteCodes, announcements } from "@shared/schema";
+import { type User, type InsertUser, type UpsertUser, type RegisterUser, type Partnership, type Message, type InsertMessage, type Exclusion, type InsertExclusion, type Report, type InsertReport, type InviteCode, type InsertInviteCode, type Announcement, type InsertAnnouncement, type MatchWaitlistEntry, type MatchRound, type MatchingOptions, type MatchProposal, type ScheduledJobRun, type AdminAuditLogEntry, type UnmatchedUser, type UnmatchedReason, type PartnershipStatus, type PartnershipStatusChange, type Notification, type CheckIn, type InsertCheckIn, type Goal, type GoalUpdate, type InsertGoal, type GoalChange, type PartnershipFeedback, type InsertPartnershipFeedback, type PartnershipExtension, type Meeting, type InsertMeeting, type MeetingStatus, type MessageReadCursor, type MessagePage, type MessageRevisionAction, type MessageWithRevisions, type MessageWithSender, type MessageAttachment, type AttachmentSummary, type MessagePageQuery, type ScreeningRule, type InsertScreeningRule, getPartnershipMemberIds, users, partnerships, messages, exclusions, reports, inviteCodes, announcements, matchWaitlist, matchRounds, scheduledJobRuns, adminAuditLog, partnershipStatusHistory, notifications, checkIns, goals, goalUpdates, partnershipFeedback, partnershipExtensions, meetings, calendarFeeds, messageReadCursors, messageRevisions, messageAttachments, screeningRules } from "@shared/schema";
 import { db, withRetry, validateConnection, validateSchemaWithRetry } from "./db";
-import { eq, and, or, lte, gte, desc, isNull } from "drizzle-orm";
+import { sql, eq, ne, and, or, lt, lte, gt, gte, desc, isNull, inArray, TransactionRollbackError } from "drizzle-orm";
+
+// A report filed by content screening rather than a member
+export interface NewScreeningReport {
+  reportedUserId: string;
+  partnershipId: string;
+  messageId: string;
+  reason: string;
+  description: string;
+}
+
+export interface NewMessageAttachment {
+  id: string;
+  partnershipId: string;
+  uploadedBy: string;
+  fileName: string;
+  contentType: string;
+  size: number;
+  storageKey: string;
+}
+
+// A single status change; the partnership must still be in `from` for it to apply
+export interface PartnershipStatusUpdate {
+  from: PartnershipStatus;
+  to: PartnershipStatus;
+  endDate: Date;
+  changedBy: string | null;
+  reason: string;
+}
+
+export interface NewNotification {
+  userId: string;
+  type: string;
+  title: string;
+  body: string;
+  partnershipId?: string | null;
+}
+
+// An admin change that ends some active partnerships and creates others in one step
+export interface PartnershipReplacement {
+  end: string[];
+  create: string[][];
+  waitlist: UnmatchedUser[];
+  // Recorded in the status history of each ended partnership
+  reason?: string;
+  startDate: Date;
+  endDate: Date;
+  audit: NewAuditLogEntry;
+}
+
+export interface NewAuditLogEntry {
+  adminId: string;
+  action: string;
+  targetType: string;
+  targetId: string | null;
+  details: Record<string, unknown>;
+}
 
 export interface IStorage {
   // User methods
@@ -22,27 +78,119 @@ export interface IStorage {
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
 
   // Partnership methods
-  createPartnership(user1Id: string, user2Id: string, startDate: Date, endDate: Date): Promise<Partnership>;
+  createPartnership(user1Id: string, user2Id: string, startDate: Date, endDate: Date, user3Id?: string | null): Promise<Partnership>;
   getPartnership(id: string): Promise<Partnership | undefined>;
   getActivePartnershipForUser(userId: string): Promise<Partnership | undefined>;
   getUserPartnerships(userId: string): Promise<Partnership[]>;
-  updatePartnership(id: string, updates: Partial<Partnership>): Promise<Partnership | undefined>;
   getPartnershipsForMatching(currentDate: Date): Promise<Partnership[]>;
   getAllPartnerships(): Promise<Partnership[]>;
+  getActivePartnerships(): Promise<Partnership[]>;
+  completeExpiredPartnerships(now: Date): Promise<Partnership[]>;
+  replacePartnerships(change: PartnershipReplacement): Promise<Partnership[] | undefined>;
+  createRematchPartnership(memberIds: string[], startDate: Date, endDate: Date): Promise<Partnership | undefined>;
+  transitionPartnership(id: string, update: PartnershipStatusUpdate): Promise<Partnership | undefined>;
+  getPartnershipStatusHistory(partnershipId: string): Promise<PartnershipStatusChange[]>;
+
+  // Check-in methods
+  upsertCheckIn(partnershipId: string, userId: string, weekNumber: number, checkIn: InsertCheckIn): Promise<CheckIn>;
+  getPartnershipCheckIns(partnershipId: string): Promise<CheckIn[]>;
+
+  // Goal methods
+  createGoal(partnershipId: string, userId: string, goal: InsertGoal): Promise<Goal>;
+  getGoal(id: string): Promise<Goal | undefined>;
+  getPartnershipGoals(partnershipId: string): Promise<Goal[]>;
+  getGoalUpdates(goalIds: string[]): Promise<GoalUpdate[]>;
+  updateGoal(id: string, userId: string, change: GoalChange): Promise<Goal | undefined>;
+
+  // Partnership feedback methods
+  createPartnershipFeedback(partnershipId: string, userId: string, feedback: InsertPartnershipFeedback): Promise<PartnershipFeedback>;
+  getUserPartnershipFeedback(userId: string): Promise<PartnershipFeedback[]>;
+  getAllPartnershipFeedback(): Promise<PartnershipFeedback[]>;
+
+  // Partnership extension methods
+  createPartnershipExtension(partnershipId: string, requestedBy: string, weeks: number): Promise<PartnershipExtension>;
+  getPartnershipExtension(id: string): Promise<PartnershipExtension | undefined>;
+  getPartnershipExtensions(partnershipId: string): Promise<PartnershipExtension[]>;
+  updatePendingExtension(id: string, updates: Partial<PartnershipExtension>): Promise<PartnershipExtension | undefined>;
+  acceptPartnershipExtension(id: string, respondedBy: string, endDate: Date): Promise<PartnershipExtension | undefined>;
+
+  // Meeting methods
+  createMeeting(partnershipId: string, proposedBy: string, meeting: InsertMeeting & { timezone: string }): Promise<Meeting>;
+  getMeeting(id: string): Promise<Meeting | undefined>;
+  getPartnershipMeetings(partnershipId: string): Promise<Meeting[]>;
+  getMeetingsForPartnerships(partnershipIds: string[], status: MeetingStatus): Promise<Meeting[]>;
+  updateMeeting(id: string, fromStatuses: MeetingStatus[], updates: Partial<Meeting>): Promise<Meeting | undefined>;
+
+  // Calendar feed methods
+  getCalendarFeedToken(userId: string): Promise<string | undefined>;
+  setCalendarFeedToken(userId: string, token: string): Promise<string>;
+  getUserIdByCalendarFeedToken(token: string): Promise<string | undefined>;
+
+  // Match waitlist methods
+  getActiveWaitlist(): Promise<MatchWaitlistEntry[]>;
+  getActiveWaitlistEntryForUser(userId: string): Promise<MatchWaitlistEntry | undefined>;
+  upsertWaitlistEntry(userId: string, reason: UnmatchedReason, detail: string | null): Promise<MatchWaitlistEntry>;
+
+  // Match round methods
+  createMatchRound(createdBy: string | null, parameters: MatchingOptions, proposal: MatchProposal): Promise<MatchRound>;
+  getMatchRound(id: string): Promise<MatchRound | undefined>;
+  getAllMatchRounds(): Promise<MatchRound[]>;
+  getLatestCommittedMatchRound(): Promise<MatchRound | undefined>;
+  updateMatchRoundProposal(id: string, proposal: MatchProposal): Promise<MatchRound | undefined>;
+  cancelMatchRound(id: string): Promise<MatchRound | undefined>;
+  commitMatchRound(id: string, committedBy: string | null, startDate: Date, endDate: Date): Promise<{ round: MatchRound; partnerships: Partnership[] } | undefined>;
+
+  // Scheduled job methods
+  createJobRun(jobName: string): Promise<ScheduledJobRun>;
+  finishJobRun(id: string, status: "succeeded" | "failed", summary: string | null, error: string | null): Promise<ScheduledJobRun | undefined>;
+  getLatestJobRun(jobName: string): Promise<ScheduledJobRun | undefined>;
+  getRecentJobRuns(limit: number): Promise<ScheduledJobRun[]>;
+
+  // Admin audit log methods
+  getAuditLog(limit: number): Promise<AdminAuditLogEntry[]>;
+  createAuditLogEntry(entry: NewAuditLogEntry): Promise<AdminAuditLogEntry>;
+
+  // Notification methods
+  createNotification(notification: NewNotification): Promise<Notification>;
+  getUnreadNotifications(userId: string): Promise<Notification[]>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
 
   // Message methods
-  createMessage(senderId: string, message: InsertMessage): Promise<Message>;
-  getPartnershipMessages(partnershipId: string): Promise<Message[]>;
+  createMessage(senderId: string, message: InsertMessage, attachmentIds?: string[]): Promise<Message | undefined>;
+  getPartnershipMessagePage(partnershipId: string, query: MessagePageQuery): Promise<MessagePage | undefined>;
+  getMessage(id: string): Promise<Message | undefined>;
+  reviseMessage(id: string, action: MessageRevisionAction, content?: string): Promise<Message | undefined>;
+  getRevisedMessages(partnershipId: string): Promise<MessageWithRevisions[]>;
+  createAttachment(attachment: NewMessageAttachment): Promise<MessageAttachment>;
+  getAttachment(id: string): Promise<MessageAttachment | undefined>;
+  setAttachmentThumbnail(id: string, thumbnailKey: string): Promise<MessageAttachment | undefined>;
+  countUnsentAttachments(userId: string): Promise<number>;
+  deleteUnsentAttachments(uploadedBefore: Date): Promise<MessageAttachment[]>;
+  deleteUnsentAttachment(id: string, partnershipId: string, uploadedBy: string): Promise<MessageAttachment | undefined>;
+  getAttachmentSummaries(messageIds: string[]): Promise<AttachmentSummary[]>;
+  markMessagesRead(partnershipId: string, userId: string, messageId: string): Promise<MessageReadCursor | undefined>;
+  getReadCursors(partnershipId: string): Promise<MessageReadCursor[]>;
+  getUnreadMessageCount(partnershipId: string, userId: string): Promise<number>;
 
   // Exclusion methods
   createExclusion(userId: string, exclusion: InsertExclusion): Promise<Exclusion>;
   getUserExclusions(userId: string): Promise<Exclusion[]>;
+  getAllExclusions(): Promise<Exclusion[]>;
   isUserExcluded(userId: string, potentialPartnerId: string): Promise<boolean>;
   removeExclusion(exclusionId: string): Promise<void>;
 
   // Report methods
   createReport(reporterId: string, report: InsertReport): Promise<Report>;
   getAllReports(): Promise<Report[]>;
+  getReport(id: string): Promise<Report | undefined>;
+  createScreeningReport(report: NewScreeningReport): Promise<Report>;
+
+  // Content screening rules
+  getAllScreeningRules(): Promise<ScreeningRule[]>;
+  getActiveScreeningRules(): Promise<ScreeningRule[]>;
+  createScreeningRule(createdBy: string, rule: InsertScreeningRule): Promise<ScreeningRule>;
+  updateScreeningRule(id: string, rule: InsertScreeningRule): Promise<ScreeningRule | undefined>;
+  deleteScreeningRule(id: string): Promise<ScreeningRule | undefined>;
   updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined>;
 
   // Invite code methods
@@ -63,6 +211,31 @@ export interface IStorage {
   deactivateAnnouncement(id: string): Promise<Announcement | undefined>;
 }
 
+// Every path that creates active partnerships takes this lock first, so a member can't be
+// given two at once by a rematch, a round commit and an admin change racing each other
+async function lockPartnershipCreation(tx: any): Promise<void> {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('rematch'))`);
+}
+
+async function hasActivePartnership(tx: any, memberIds: string[]): Promise<boolean> {
+  if (memberIds.length === 0) return false;
+  const [taken] = await tx
+    .select({ id: partnerships.id })
+    .from(partnerships)
+    .where(
+      and(
+        eq(partnerships.status, "active"),
+        or(
+          inArray(partnerships.user1Id, memberIds),
+          inArray(partnerships.user2Id, memberIds),
+          inArray(partnerships.user3Id, memberIds)
+        )
+      )
+    )
+    .limit(1);
+  return !!taken;
+}
+
 export class DatabaseStorage implements IStorage {
   constructor() {
     // Seed admin user for development
@@ -254,16 +427,16 @@ export class DatabaseStorage implements IStorage {
     return await this.markInviteCodeAsUsed(code, userId);
   }
 
-  async createPartnership(user1Id: string, user2Id: string, startDate: Date, endDate: Date): Promise<Partnership> {
+  async createPartnership(user1Id: string, user2Id: string, startDate: Date, endDate: Date, user3Id?: string | null): Promise<Partnership> {
     const [partnership] = await db
       .insert(partnerships)
       .values({
         user1Id,
         user2Id,
+        user3Id: user3Id || null,
         startDate,
         endDate,
-        status: "active",
-        successRate: null
+        status: "active"
       })
       .returning();
     return partnership;
@@ -283,7 +456,8 @@ export class DatabaseStorage implements IStorage {
           eq(partnerships.status, "active"),
           or(
             eq(partnerships.user1Id, userId),
-            eq(partnerships.user2Id, userId)
+            eq(partnerships.user2Id, userId),
+            eq(partnerships.user3Id, userId)
           )
         )
       );
@@ -297,21 +471,13 @@ export class DatabaseStorage implements IStorage {
       .where(
         or(
           eq(partnerships.user1Id, userId),
-          eq(partnerships.user2Id, userId)
+          eq(partnerships.user2Id, userId),
+          eq(partnerships.user3Id, userId)
         )
       )
       .orderBy(partnerships.createdAt);
   }
 
-  async updatePartnership(id: string, updates: Partial<Partnership>): Promise<Partnership | undefined> {
-    const [partnership] = await db
-      .update(partnerships)
-      .set(updates)
-      .where(eq(partnerships.id, id))
-      .returning();
-    return partnership || undefined;
-  }
-
   async getPartnershipsForMatching(currentDate: Date): Promise<Partnership[]> {
     return await db
       .select()
@@ -331,24 +497,884 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(partnerships.createdAt));
   }
 
-  async createMessage(senderId: string, insertMessage: InsertMessage): Promise<Message> {
-    const [message] = await db
-      .insert(messages)
+  async getActivePartnerships(): Promise<Partnership[]> {
+    return await db
+      .select()
+      .from(partnerships)
+      .where(eq(partnerships.status, "active"));
+  }
+
+  // Active partnerships whose end date has passed are completed
+  async completeExpiredPartnerships(now: Date): Promise<Partnership[]> {
+    return await db.transaction(async (tx: any) => {
+      const completed: Partnership[] = await tx
+        .update(partnerships)
+        .set({ status: "completed" })
+        .where(and(eq(partnerships.status, "active"), lt(partnerships.endDate, now)))
+        .returning();
+      if (completed.length > 0) {
+        await tx.insert(partnershipStatusHistory).values(
+          completed.map((partnership) => ({
+            partnershipId: partnership.id,
+            fromStatus: "active",
+            toStatus: "completed",
+            changedBy: null,
+            reason: "Reached end date",
+            createdAt: now
+          }))
+        );
+      }
+      return completed;
+    });
+  }
+
+  // Applies the change and records it in the status history together, or returns
+  // undefined when the partnership is no longer in the expected status
+  async transitionPartnership(id: string, update: PartnershipStatusUpdate): Promise<Partnership | undefined> {
+    return await db.transaction(async (tx: any) => {
+      const [partnership] = await tx
+        .update(partnerships)
+        .set({ status: update.to, endDate: update.endDate })
+        .where(and(eq(partnerships.id, id), eq(partnerships.status, update.from)))
+        .returning();
+      if (!partnership) return undefined;
+
+      await tx.insert(partnershipStatusHistory).values({
+        partnershipId: id,
+        fromStatus: update.from,
+        toStatus: update.to,
+        changedBy: update.changedBy,
+        reason: update.reason
+      });
+      return partnership;
+    });
+  }
+
+  async getPartnershipStatusHistory(partnershipId: string): Promise<PartnershipStatusChange[]> {
+    return await db
+      .select()
+      .from(partnershipStatusHistory)
+      .where(eq(partnershipStatusHistory.partnershipId, partnershipId))
+      .orderBy(partnershipStatusHistory.createdAt);
+  }
+
+  // Ends, creates, waitlists and audits in one transaction. Returns undefined (and changes
+  // nothing) when a partnership to end is no longer active, or a member to pair already has one.
+  async replacePartnerships(change: PartnershipReplacement): Promise<Partnership[] | undefined> {
+    try {
+      return await db.transaction(async (tx: any) => {
+        await lockPartnershipCreation(tx);
+        const now = new Date();
+        for (const partnershipId of change.end) {
+          const ended = await tx
+            .update(partnerships)
+            .set({ status: "ended_early", endDate: now })
+            .where(and(eq(partnerships.id, partnershipId), eq(partnerships.status, "active")))
+            .returning();
+          if (ended.length === 0) tx.rollback();
+          await tx.insert(partnershipStatusHistory).values({
+            partnershipId,
+            fromStatus: "active",
+            toStatus: "ended_early",
+            changedBy: change.audit.adminId,
+            reason: change.reason ?? change.audit.action
+          });
+        }
+
+        // Checked after the ends above, so swapped and reassigned members count as free
+        if (await hasActivePartnership(tx, change.create.flat())) tx.rollback();
+
+        const created: Partnership[] = [];
+        for (const [user1Id, user2Id, user3Id] of change.create) {
+          const [partnership]: Partnership[] = await tx
+            .insert(partnerships)
+            .values({
+              user1Id,
+              user2Id,
+              user3Id: user3Id || null,
+              startDate: change.startDate,
+              endDate: change.endDate,
+              status: "active"
+            })
+            .returning();
+          created.push(partnership);
+
+          for (const memberId of getPartnershipMemberIds(partnership)) {
+            await tx
+              .update(matchWaitlist)
+              .set({ resolvedAt: now, resolvedPartnershipId: partnership.id })
+              .where(and(eq(matchWaitlist.userId, memberId), isNull(matchWaitlist.resolvedAt)));
+          }
+        }
+
+        for (const entry of change.waitlist) {
+          const updated = await tx
+            .update(matchWaitlist)
+            .set({ reason: entry.reason, detail: entry.detail })
+            .where(and(eq(matchWaitlist.userId, entry.userId), isNull(matchWaitlist.resolvedAt)))
+            .returning();
+          if (updated.length === 0) {
+            await tx
+              .insert(matchWaitlist)
+              .values({ userId: entry.userId, reason: entry.reason, detail: entry.detail });
+          }
+        }
+
+        await tx.insert(adminAuditLog).values({
+          ...change.audit,
+          details: {
+            ...change.audit.details,
+            endedPartnershipIds: change.end,
+            createdPartnershipIds: created.map((partnership) => partnership.id)
+          }
+        });
+
+        return created;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  // Pairs members from the waiting pool and resolves their waitlist entries in one transaction.
+  // Concurrent rematches queue on an advisory lock, and the insert is rolled back (returning
+  // undefined) when any member picked up an active partnership in the meantime.
+  async createRematchPartnership(memberIds: string[], startDate: Date, endDate: Date): Promise<Partnership | undefined> {
+    try {
+      return await db.transaction(async (tx: any) => {
+        await lockPartnershipCreation(tx);
+        if (await hasActivePartnership(tx, memberIds)) tx.rollback();
+
+        const [user1Id, user2Id, user3Id] = memberIds;
+        const [partnership]: Partnership[] = await tx
+          .insert(partnerships)
+          .values({ user1Id, user2Id, user3Id: user3Id || null, startDate, endDate, status: "active" })
+          .returning();
+
+        await tx
+          .update(matchWaitlist)
+          .set({ resolvedAt: new Date(), resolvedPartnershipId: partnership.id })
+          .where(and(inArray(matchWaitlist.userId, memberIds), isNull(matchWaitlist.resolvedAt)));
+
+        return partnership;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  async upsertCheckIn(partnershipId: string, userId: string, weekNumber: number, checkIn: InsertCheckIn): Promise<CheckIn> {
+    const values = {
+      met: checkIn.met,
+      outcome: checkIn.outcome,
+      rating: checkIn.rating,
+      notes: checkIn.notes || null
+    };
+    const [saved] = await db
+      .insert(checkIns)
+      .values({ partnershipId, userId, weekNumber, ...values })
+      .onConflictDoUpdate({
+        target: [checkIns.partnershipId, checkIns.userId, checkIns.weekNumber],
+        set: { ...values, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async getPartnershipCheckIns(partnershipId: string): Promise<CheckIn[]> {
+    return await db
+      .select()
+      .from(checkIns)
+      .where(eq(checkIns.partnershipId, partnershipId))
+      .orderBy(checkIns.weekNumber, checkIns.createdAt);
+  }
+
+  async createGoal(partnershipId: string, userId: string, goal: InsertGoal): Promise<Goal> {
+    return await db.transaction(async (tx: any) => {
+      const [created]: Goal[] = await tx
+        .insert(goals)
+        .values({
+          partnershipId,
+          createdBy: userId,
+          title: goal.title,
+          description: goal.description || null
+        })
+        .returning();
+      await tx.insert(goalUpdates).values({ goalId: created.id, userId, action: "created", progress: 0 });
+      return created;
+    });
+  }
+
+  async getGoal(id: string): Promise<Goal | undefined> {
+    const [goal] = await db.select().from(goals).where(eq(goals.id, id));
+    return goal || undefined;
+  }
+
+  async getPartnershipGoals(partnershipId: string): Promise<Goal[]> {
+    return await db
+      .select()
+      .from(goals)
+      .where(eq(goals.partnershipId, partnershipId))
+      .orderBy(goals.createdAt);
+  }
+
+  async getGoalUpdates(goalIds: string[]): Promise<GoalUpdate[]> {
+    if (goalIds.length === 0) return [];
+    return await db
+      .select()
+      .from(goalUpdates)
+      .where(inArray(goalUpdates.goalId, goalIds))
+      .orderBy(goalUpdates.createdAt);
+  }
+
+  // Completing a goal sets it to 100%; the change is recorded in the goal's history
+  async updateGoal(id: string, userId: string, change: GoalChange): Promise<Goal | undefined> {
+    return await db.transaction(async (tx: any) => {
+      const [goal]: Goal[] = await tx.select().from(goals).where(eq(goals.id, id)).for("update");
+      if (!goal) return undefined;
+
+      const status = change.status ?? goal.status;
+      const progress = status === "completed" ? 100 : change.progress ?? goal.progress;
+      const action = status === goal.status ? "progress" : status === "completed" ? "completed" : "reopened";
+      const now = new Date();
+
+      const [updated] = await tx
+        .update(goals)
+        .set({
+          status,
+          progress,
+          completedAt: status === "completed" ? goal.completedAt ?? now : null,
+          updatedAt: now
+        })
+        .where(eq(goals.id, id))
+        .returning();
+      await tx.insert(goalUpdates).values({ goalId: id, userId, action, progress, note: change.note || null });
+      return updated;
+    });
+  }
+
+  async createPartnershipFeedback(partnershipId: string, userId: string, feedback: InsertPartnershipFeedback): Promise<PartnershipFeedback> {
+    const [created] = await db
+      .insert(partnershipFeedback)
       .values({
-        partnershipId: insertMessage.partnershipId,
-        senderId,
-        content: insertMessage.content
+        partnershipId,
+        userId,
+        rating: feedback.rating,
+        wouldMatchAgain: feedback.wouldMatchAgain,
+        comments: feedback.comments || null
+      })
+      .returning();
+    return created;
+  }
+
+  async getUserPartnershipFeedback(userId: string): Promise<PartnershipFeedback[]> {
+    return await db
+      .select()
+      .from(partnershipFeedback)
+      .where(eq(partnershipFeedback.userId, userId));
+  }
+
+  async getAllPartnershipFeedback(): Promise<PartnershipFeedback[]> {
+    return await db
+      .select()
+      .from(partnershipFeedback)
+      .orderBy(desc(partnershipFeedback.createdAt));
+  }
+
+  async createPartnershipExtension(partnershipId: string, requestedBy: string, weeks: number): Promise<PartnershipExtension> {
+    const [extension] = await db
+      .insert(partnershipExtensions)
+      .values({ partnershipId, requestedBy, weeks })
+      .returning();
+    return extension;
+  }
+
+  async getPartnershipExtension(id: string): Promise<PartnershipExtension | undefined> {
+    const [extension] = await db.select().from(partnershipExtensions).where(eq(partnershipExtensions.id, id));
+    return extension || undefined;
+  }
+
+  async getPartnershipExtensions(partnershipId: string): Promise<PartnershipExtension[]> {
+    return await db
+      .select()
+      .from(partnershipExtensions)
+      .where(eq(partnershipExtensions.partnershipId, partnershipId))
+      .orderBy(desc(partnershipExtensions.createdAt));
+  }
+
+  // Only pending requests change; returns undefined when the request was already settled
+  async updatePendingExtension(id: string, updates: Partial<PartnershipExtension>): Promise<PartnershipExtension | undefined> {
+    const [extension] = await db
+      .update(partnershipExtensions)
+      .set(updates)
+      .where(and(eq(partnershipExtensions.id, id), eq(partnershipExtensions.status, "pending")))
+      .returning();
+    return extension || undefined;
+  }
+
+  // Settles the request and moves the end date together. Returns undefined (and changes
+  // nothing) when the request is no longer pending or the partnership is no longer active.
+  async acceptPartnershipExtension(id: string, respondedBy: string, endDate: Date): Promise<PartnershipExtension | undefined> {
+    try {
+      return await db.transaction(async (tx: any) => {
+        const [extension]: PartnershipExtension[] = await tx
+          .update(partnershipExtensions)
+          .set({
+            status: "accepted",
+            acceptedBy: sql`array_append(${partnershipExtensions.acceptedBy}, ${respondedBy})`,
+            respondedBy,
+            respondedAt: new Date()
+          })
+          .where(and(eq(partnershipExtensions.id, id), eq(partnershipExtensions.status, "pending")))
+          .returning();
+        if (!extension) tx.rollback();
+
+        const extended = await tx
+          .update(partnerships)
+          .set({ endDate })
+          .where(and(eq(partnerships.id, extension.partnershipId), eq(partnerships.status, "active")))
+          .returning();
+        if (extended.length === 0) tx.rollback();
+        return extension;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  async createMeeting(partnershipId: string, proposedBy: string, meeting: InsertMeeting & { timezone: string }): Promise<Meeting> {
+    const [created] = await db
+      .insert(meetings)
+      .values({ ...meeting, partnershipId, proposedBy })
+      .returning();
+    return created;
+  }
+
+  async getMeeting(id: string): Promise<Meeting | undefined> {
+    const [meeting] = await db.select().from(meetings).where(eq(meetings.id, id));
+    return meeting || undefined;
+  }
+
+  async getPartnershipMeetings(partnershipId: string): Promise<Meeting[]> {
+    return await db
+      .select()
+      .from(meetings)
+      .where(eq(meetings.partnershipId, partnershipId))
+      .orderBy(meetings.startsAt);
+  }
+
+  async getMeetingsForPartnerships(partnershipIds: string[], status: MeetingStatus): Promise<Meeting[]> {
+    if (partnershipIds.length === 0) return [];
+    return await db
+      .select()
+      .from(meetings)
+      .where(and(inArray(meetings.partnershipId, partnershipIds), eq(meetings.status, status)))
+      .orderBy(meetings.startsAt);
+  }
+
+  // Only changes meetings still in one of `fromStatuses`; returns undefined otherwise
+  async updateMeeting(id: string, fromStatuses: MeetingStatus[], updates: Partial<Meeting>): Promise<Meeting | undefined> {
+    const [meeting] = await db
+      .update(meetings)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(meetings.id, id), inArray(meetings.status, fromStatuses)))
+      .returning();
+    return meeting || undefined;
+  }
+
+  async getCalendarFeedToken(userId: string): Promise<string | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId));
+    return feed?.token;
+  }
+
+  // Replaces any previous token, so old subscription URLs stop working
+  async setCalendarFeedToken(userId: string, token: string): Promise<string> {
+    const [feed] = await db
+      .insert(calendarFeeds)
+      .values({ userId, token })
+      .onConflictDoUpdate({
+        target: calendarFeeds.userId,
+        set: { token, createdAt: new Date() },
       })
       .returning();
-    return message;
+    return feed.token;
+  }
+
+  async getUserIdByCalendarFeedToken(token: string): Promise<string | undefined> {
+    const [feed] = await db.select().from(calendarFeeds).where(eq(calendarFeeds.token, token));
+    return feed?.userId;
   }
 
-  async getPartnershipMessages(partnershipId: string): Promise<Message[]> {
+  async getActiveWaitlist(): Promise<MatchWaitlistEntry[]> {
     return await db
       .select()
+      .from(matchWaitlist)
+      .where(isNull(matchWaitlist.resolvedAt))
+      .orderBy(matchWaitlist.createdAt);
+  }
+
+  async getActiveWaitlistEntryForUser(userId: string): Promise<MatchWaitlistEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(matchWaitlist)
+      .where(
+        and(
+          eq(matchWaitlist.userId, userId),
+          isNull(matchWaitlist.resolvedAt)
+        )
+      );
+    return entry || undefined;
+  }
+
+  // Keeps the original entry (and its place in the queue) when a member is left over again
+  async upsertWaitlistEntry(userId: string, reason: UnmatchedReason, detail: string | null): Promise<MatchWaitlistEntry> {
+    const existing = await this.getActiveWaitlistEntryForUser(userId);
+    if (existing) {
+      const [entry] = await db
+        .update(matchWaitlist)
+        .set({ reason, detail })
+        .where(eq(matchWaitlist.id, existing.id))
+        .returning();
+      return entry;
+    }
+
+    const [entry] = await db
+      .insert(matchWaitlist)
+      .values({ userId, reason, detail })
+      .returning();
+    return entry;
+  }
+
+  async createMatchRound(createdBy: string | null, parameters: MatchingOptions, proposal: MatchProposal): Promise<MatchRound> {
+    const [round] = await db
+      .insert(matchRounds)
+      .values({ createdBy, parameters, proposal, status: "draft" })
+      .returning();
+    return round;
+  }
+
+  async getMatchRound(id: string): Promise<MatchRound | undefined> {
+    const [round] = await db.select().from(matchRounds).where(eq(matchRounds.id, id));
+    return round || undefined;
+  }
+
+  async getAllMatchRounds(): Promise<MatchRound[]> {
+    return await db
+      .select()
+      .from(matchRounds)
+      .orderBy(desc(matchRounds.createdAt));
+  }
+
+  async getLatestCommittedMatchRound(): Promise<MatchRound | undefined> {
+    const [round] = await db
+      .select()
+      .from(matchRounds)
+      .where(eq(matchRounds.status, "committed"))
+      .orderBy(desc(matchRounds.committedAt))
+      .limit(1);
+    return round || undefined;
+  }
+
+  // Only draft rounds can be edited or cancelled
+  async updateMatchRoundProposal(id: string, proposal: MatchProposal): Promise<MatchRound | undefined> {
+    const [round] = await db
+      .update(matchRounds)
+      .set({ proposal, updatedAt: new Date() })
+      .where(and(eq(matchRounds.id, id), eq(matchRounds.status, "draft")))
+      .returning();
+    return round || undefined;
+  }
+
+  async cancelMatchRound(id: string): Promise<MatchRound | undefined> {
+    const [round] = await db
+      .update(matchRounds)
+      .set({ status: "cancelled", cancelledAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(matchRounds.id, id), eq(matchRounds.status, "draft")))
+      .returning();
+    return round || undefined;
+  }
+
+  // Creates every proposed partnership and updates the waitlist in one transaction.
+  // Returns undefined (and changes nothing) when the round is no longer a draft, or when
+  // a proposed member already has an active partnership.
+  async commitMatchRound(id: string, committedBy: string | null, startDate: Date, endDate: Date): Promise<{ round: MatchRound; partnerships: Partnership[] } | undefined> {
+    try {
+      return await db.transaction(async (tx: any) => {
+        await lockPartnershipCreation(tx);
+        const now = new Date();
+        const [round]: MatchRound[] = await tx
+          .update(matchRounds)
+          .set({ status: "committed", committedBy, committedAt: now, updatedAt: now })
+          .where(and(eq(matchRounds.id, id), eq(matchRounds.status, "draft")))
+          .returning();
+        if (!round) tx.rollback();
+        if (await hasActivePartnership(tx, round.proposal.pairs.flatMap((pair) => getPartnershipMemberIds(pair)))) tx.rollback();
+
+        const created: Partnership[] = [];
+        for (const pair of round.proposal.pairs) {
+          const [partnership]: Partnership[] = await tx
+            .insert(partnerships)
+            .values({
+              user1Id: pair.user1Id,
+              user2Id: pair.user2Id,
+              user3Id: pair.user3Id || null,
+              roundId: round.id,
+              startDate,
+              endDate,
+              status: "active"
+            })
+            .returning();
+          created.push(partnership);
+
+          for (const memberId of getPartnershipMemberIds(partnership)) {
+            await tx
+              .update(matchWaitlist)
+              .set({ resolvedAt: now, resolvedPartnershipId: partnership.id })
+              .where(and(eq(matchWaitlist.userId, memberId), isNull(matchWaitlist.resolvedAt)));
+          }
+        }
+
+        // Keep an existing waitlist entry (and its place in the queue) when a member is left over again
+        for (const entry of round.proposal.unmatched) {
+          const updated = await tx
+            .update(matchWaitlist)
+            .set({ reason: entry.reason, detail: entry.detail })
+            .where(and(eq(matchWaitlist.userId, entry.userId), isNull(matchWaitlist.resolvedAt)))
+            .returning();
+          if (updated.length === 0) {
+            await tx
+              .insert(matchWaitlist)
+              .values({ userId: entry.userId, reason: entry.reason, detail: entry.detail });
+          }
+        }
+
+        return { round, partnerships: created };
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  async createJobRun(jobName: string): Promise<ScheduledJobRun> {
+    const [run] = await db
+      .insert(scheduledJobRuns)
+      .values({ jobName, status: "running" })
+      .returning();
+    return run;
+  }
+
+  async finishJobRun(id: string, status: "succeeded" | "failed", summary: string | null, error: string | null): Promise<ScheduledJobRun | undefined> {
+    const [run] = await db
+      .update(scheduledJobRuns)
+      .set({ status, summary, error, finishedAt: new Date() })
+      .where(eq(scheduledJobRuns.id, id))
+      .returning();
+    return run || undefined;
+  }
+
+  async getLatestJobRun(jobName: string): Promise<ScheduledJobRun | undefined> {
+    const [run] = await db
+      .select()
+      .from(scheduledJobRuns)
+      .where(eq(scheduledJobRuns.jobName, jobName))
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(1);
+    return run || undefined;
+  }
+
+  async getRecentJobRuns(limit: number): Promise<ScheduledJobRun[]> {
+    return await db
+      .select()
+      .from(scheduledJobRuns)
+      .orderBy(desc(scheduledJobRuns.startedAt))
+      .limit(limit);
+  }
+
+  async getAuditLog(limit: number): Promise<AdminAuditLogEntry[]> {
+    return await db
+      .select()
+      .from(adminAuditLog)
+      .orderBy(desc(adminAuditLog.createdAt))
+      .limit(limit);
+  }
+
+  async createAuditLogEntry(entry: NewAuditLogEntry): Promise<AdminAuditLogEntry> {
+    const [created] = await db.insert(adminAuditLog).values(entry).returning();
+    return created;
+  }
+
+  async createNotification(notification: NewNotification): Promise<Notification> {
+    const [created] = await db
+      .insert(notifications)
+      .values(notification)
+      .returning();
+    return created;
+  }
+
+  async getUnreadNotifications(userId: string): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .orderBy(desc(notifications.createdAt));
+  }
+
+  // Scoped to the owner so members can only dismiss their own notifications
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification || undefined;
+  }
+
+  // Attachments must be the sender's own unsent uploads to the same partnership; otherwise
+  // nothing is created and undefined is returned
+  async createMessage(senderId: string, insertMessage: InsertMessage, attachmentIds: string[] = []): Promise<Message | undefined> {
+    try {
+      return await db.transaction(async (tx: any) => {
+        const [message]: Message[] = await tx
+          .insert(messages)
+          .values({
+            partnershipId: insertMessage.partnershipId,
+            senderId,
+            content: insertMessage.content
+          })
+          .returning();
+        if (attachmentIds.length > 0) {
+          const attached = await tx
+            .update(messageAttachments)
+            .set({ messageId: message.id })
+            .where(
+              and(
+                inArray(messageAttachments.id, attachmentIds),
+                eq(messageAttachments.partnershipId, message.partnershipId),
+                eq(messageAttachments.uploadedBy, senderId),
+                isNull(messageAttachments.messageId)
+              )
+            )
+            .returning();
+          if (attached.length !== new Set(attachmentIds).size) tx.rollback();
+        }
+        return message;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  // Attachments for each message; deleted messages keep theirs for moderators but members see none
+  private async withAttachments<T extends Message>(rows: T[], includeDeleted = false): Promise<(T & { attachments: AttachmentSummary[] })[]> {
+    const attachments = await this.getAttachmentSummaries(rows.map((message) => message.id));
+    return rows.map((message) => ({
+      ...message,
+      attachments: message.deletedAt && !includeDeleted ? [] : attachments.filter((attachment) => attachment.messageId === message.id),
+    }));
+  }
+
+  // One page of a conversation with senders joined, oldest first. Without a cursor it is
+  // the newest page. Returns undefined when the cursor is not a message in this partnership.
+  async getPartnershipMessagePage(partnershipId: string, { before, after, limit }: MessagePageQuery): Promise<MessagePage | undefined> {
+    const cursorId = before ?? after;
+    if (cursorId) {
+      const cursor = await this.getMessage(cursorId);
+      if (!cursor || cursor.partnershipId !== partnershipId) return undefined;
+    }
+
+    // Compare (createdAt, id) in SQL so equal timestamps still page in a stable order
+    const cursorPosition = sql`(select ${messages.createdAt}, ${messages.id} from ${messages} where ${messages.id} = ${cursorId})`;
+    const position = sql`(${messages.createdAt}, ${messages.id})`;
+    const rows = await db
+      .select({
+        message: messages,
+        sender: { id: users.id, name: users.name, profileImageUrl: users.profileImageUrl },
+      })
       .from(messages)
-      .where(eq(messages.partnershipId, partnershipId))
+      .leftJoin(users, eq(users.id, messages.senderId))
+      .where(
+        and(
+          eq(messages.partnershipId, partnershipId),
+          before ? sql`${position} < ${cursorPosition}` : undefined,
+          after ? sql`${position} > ${cursorPosition}` : undefined
+        )
+      )
+      .orderBy(...(after ? [messages.createdAt, messages.id] : [desc(messages.createdAt), desc(messages.id)]))
+      .limit(limit + 1);
+
+    const hasMore = rows.length > limit;
+    const page = await this.withAttachments<Omit<MessageWithSender, "attachments">>(
+      rows.slice(0, limit).map((row: any) => ({ ...row.message, sender: row.sender }))
+    );
+    return { messages: after ? page : page.reverse(), hasMore };
+  }
+
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message || undefined;
+  }
+
+  // Keeps the current content as a revision, then applies the edit or empties the message.
+  // Returns undefined when the message is missing or already deleted.
+  async reviseMessage(id: string, action: MessageRevisionAction, content?: string): Promise<Message | undefined> {
+    return await db.transaction(async (tx: any) => {
+      const [message]: Message[] = await tx.select().from(messages).where(eq(messages.id, id)).for("update");
+      if (!message || message.deletedAt) return undefined;
+
+      await tx.insert(messageRevisions).values({
+        messageId: id,
+        partnershipId: message.partnershipId,
+        action,
+        previousContent: message.content
+      });
+      const [revised] = await tx
+        .update(messages)
+        .set(action === "deleted" ? { content: "", deletedAt: new Date() } : { content, editedAt: new Date() })
+        .where(eq(messages.id, id))
+        .returning();
+      return revised;
+    });
+  }
+
+  // Every edited or deleted message in a partnership with its earlier content, oldest first
+  async getRevisedMessages(partnershipId: string): Promise<MessageWithRevisions[]> {
+    const revisions = await db
+      .select()
+      .from(messageRevisions)
+      .where(eq(messageRevisions.partnershipId, partnershipId))
+      .orderBy(messageRevisions.createdAt);
+    if (revisions.length === 0) return [];
+
+    const rows = await db
+      .select({
+        message: messages,
+        sender: { id: users.id, name: users.name, profileImageUrl: users.profileImageUrl },
+      })
+      .from(messages)
+      .leftJoin(users, eq(users.id, messages.senderId))
+      .where(inArray(messages.id, Array.from(new Set(revisions.map((revision: any) => revision.messageId)))))
       .orderBy(messages.createdAt);
+    const revised = rows.map((row: any) => ({
+      ...row.message,
+      sender: row.sender,
+      revisions: revisions.filter((revision: any) => revision.messageId === row.message.id),
+    }));
+    return await this.withAttachments<Omit<MessageWithRevisions, "attachments">>(revised, true);
+  }
+
+  async createAttachment(attachment: NewMessageAttachment): Promise<MessageAttachment> {
+    const [created] = await db.insert(messageAttachments).values(attachment).returning();
+    return created;
+  }
+
+  async getAttachment(id: string): Promise<MessageAttachment | undefined> {
+    const [attachment] = await db.select().from(messageAttachments).where(eq(messageAttachments.id, id));
+    return attachment || undefined;
+  }
+
+  // Thumbnails can only be added before the attachment is sent
+  async setAttachmentThumbnail(id: string, thumbnailKey: string): Promise<MessageAttachment | undefined> {
+    const [attachment] = await db
+      .update(messageAttachments)
+      .set({ thumbnailKey })
+      .where(and(eq(messageAttachments.id, id), isNull(messageAttachments.messageId)))
+      .returning();
+    return attachment || undefined;
+  }
+
+  async countUnsentAttachments(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messageAttachments)
+      .where(and(eq(messageAttachments.uploadedBy, userId), isNull(messageAttachments.messageId)));
+    return result?.count ?? 0;
+  }
+
+  // Only rows still unsent are removed, so an upload attached by a message in the meantime stays
+  async deleteUnsentAttachments(uploadedBefore: Date): Promise<MessageAttachment[]> {
+    return await db
+      .delete(messageAttachments)
+      .where(and(isNull(messageAttachments.messageId), lt(messageAttachments.createdAt, uploadedBefore)))
+      .returning();
+  }
+
+  async deleteUnsentAttachment(id: string, partnershipId: string, uploadedBy: string): Promise<MessageAttachment | undefined> {
+    const [attachment] = await db
+      .delete(messageAttachments)
+      .where(
+        and(
+          eq(messageAttachments.id, id),
+          eq(messageAttachments.partnershipId, partnershipId),
+          eq(messageAttachments.uploadedBy, uploadedBy),
+          isNull(messageAttachments.messageId)
+        )
+      )
+      .returning();
+    return attachment || undefined;
+  }
+
+  async getAttachmentSummaries(messageIds: string[]): Promise<AttachmentSummary[]> {
+    if (messageIds.length === 0) return [];
+    return await db
+      .select({
+        id: messageAttachments.id,
+        messageId: messageAttachments.messageId,
+        fileName: messageAttachments.fileName,
+        contentType: messageAttachments.contentType,
+        size: messageAttachments.size,
+        hasThumbnail: sql<boolean>`${messageAttachments.thumbnailKey} is not null`,
+      })
+      .from(messageAttachments)
+      .where(inArray(messageAttachments.messageId, messageIds))
+      .orderBy(messageAttachments.createdAt);
+  }
+
+  // The cursor takes the message's timestamp from the database, keeping full precision for
+  // later comparisons. Returns undefined when the cursor was already further along.
+  async markMessagesRead(partnershipId: string, userId: string, messageId: string): Promise<MessageReadCursor | undefined> {
+    const messageCreatedAt = sql`(select ${messages.createdAt} from ${messages} where ${messages.id} = ${messageId})`;
+    const [cursor] = await db
+      .insert(messageReadCursors)
+      .values({ partnershipId, userId, lastReadMessageId: messageId, lastReadAt: messageCreatedAt })
+      .onConflictDoUpdate({
+        target: [messageReadCursors.partnershipId, messageReadCursors.userId],
+        set: { lastReadMessageId: messageId, lastReadAt: messageCreatedAt, updatedAt: new Date() },
+        setWhere: sql`${messageReadCursors.lastReadAt} < excluded.last_read_at`
+      })
+      .returning();
+    return cursor || undefined;
+  }
+
+  async getReadCursors(partnershipId: string): Promise<MessageReadCursor[]> {
+    return await db
+      .select()
+      .from(messageReadCursors)
+      .where(eq(messageReadCursors.partnershipId, partnershipId));
+  }
+
+  // Messages from the other members newer than the member's read cursor, ignoring deleted ones
+  async getUnreadMessageCount(partnershipId: string, userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(messages)
+      .leftJoin(
+        messageReadCursors,
+        and(eq(messageReadCursors.partnershipId, messages.partnershipId), eq(messageReadCursors.userId, userId))
+      )
+      .where(
+        and(
+          eq(messages.partnershipId, partnershipId),
+          ne(messages.senderId, userId),
+          isNull(messages.deletedAt),
+          or(isNull(messageReadCursors.lastReadAt), gt(messages.createdAt, messageReadCursors.lastReadAt))
+        )
+      );
+    return result?.count ?? 0;
   }
 
   async createExclusion(userId: string, insertExclusion: InsertExclusion): Promise<Exclusion> {
@@ -370,6 +1396,10 @@ export class DatabaseStorage implements IStorage {
       .where(eq(exclusions.userId, userId));
   }
 
+  async getAllExclusions(): Promise<Exclusion[]> {
+    return await db.select().from(exclusions);
+  }
+
   async isUserExcluded(userId: string, potentialPartnerId: string): Promise<boolean> {
     const [exclusion] = await db
       .select()
@@ -404,6 +1434,48 @@ export class DatabaseStorage implements IStorage {
     return report;
   }
 
+  async createScreeningReport(report: NewScreeningReport): Promise<Report> {
+    const [created] = await db
+      .insert(reports)
+      .values({ ...report, reporterId: null, source: "screening", status: "pending" })
+      .returning();
+    return created;
+  }
+
+  async getAllScreeningRules(): Promise<ScreeningRule[]> {
+    return await db.select().from(screeningRules).orderBy(screeningRules.createdAt);
+  }
+
+  async getActiveScreeningRules(): Promise<ScreeningRule[]> {
+    return await db
+      .select()
+      .from(screeningRules)
+      .where(eq(screeningRules.isActive, true))
+      .orderBy(screeningRules.createdAt);
+  }
+
+  async createScreeningRule(createdBy: string, rule: InsertScreeningRule): Promise<ScreeningRule> {
+    const [created] = await db
+      .insert(screeningRules)
+      .values({ ...rule, pattern: rule.pattern || null, createdBy })
+      .returning();
+    return created;
+  }
+
+  async updateScreeningRule(id: string, rule: InsertScreeningRule): Promise<ScreeningRule | undefined> {
+    const [updated] = await db
+      .update(screeningRules)
+      .set({ ...rule, pattern: rule.pattern || null, updatedAt: new Date() })
+      .where(eq(screeningRules.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteScreeningRule(id: string): Promise<ScreeningRule | undefined> {
+    const [deleted] = await db.delete(screeningRules).where(eq(screeningRules.id, id)).returning();
+    return deleted || undefined;
+  }
+
   async getAllReports(): Promise<Report[]> {
     return await db
       .select()
@@ -411,6 +1483,11 @@ export class DatabaseStorage implements IStorage {
       .orderBy(reports.createdAt);
   }
 
+  async getReport(id: string): Promise<Report | undefined> {
+    const [report] = await db.select().from(reports).where(eq(reports.id, id));
+    return report || undefined;
+  }
+
   async updateReport(id: string, updates: Partial<Report>): Promise<Report | undefined> {
     const [report] = await db
       .update(reports)
@@ -0,0 +1,54 @@
+import type { Exclusion, Partnership, PartnershipFeedback, User } from "@shared/schema";
+
+// Complete rows for tests, so fixtures fail the type-check when the schema changes
+
+export function makeUser(id: string, overrides: Partial<User> = {}): User {
+  return {
+    id,
+    email: `${id}@example.com`,
+    firstName: null,
+    lastName: null,
+    profileImageUrl: null,
+    passwordHash: null,
+    lastLoginAt: null,
+    username: null,
+    name: id,
+    gender: null,
+    matchPreference: "same_gender",
+    matchGenders: null,
+    timezone: null,
+    availability: null,
+    isActive: true,
+    pausedUntil: null,
+    isAdmin: false,
+    hidePresence: false,
+    lastSeenAt: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides,
+  };
+}
+
+export function makePartnership(id: string, memberIds: string[], overrides: Partial<Partnership> = {}): Partnership {
+  const [user1Id, user2Id, user3Id] = memberIds;
+  return {
+    id,
+    user1Id,
+    user2Id,
+    user3Id: user3Id ?? null,
+    roundId: null,
+    startDate: new Date("2026-01-01"),
+    endDate: new Date("2026-02-01"),
+    status: "active",
+    createdAt: null,
+    ...overrides,
+  };
+}
+
+export function makeExclusion(userId: string, excludedUserId: string): Exclusion {
+  return { id: `${userId}:${excludedUserId}`, userId, excludedUserId, reason: null, createdAt: null };
+}
+
+export function makeFeedback(partnershipId: string, userId: string, rating: number, wouldMatchAgain: boolean): PartnershipFeedback {
+  return { id: `${partnershipId}:${userId}`, partnershipId, userId, rating, wouldMatchAgain, comments: null, createdAt: null };
+}
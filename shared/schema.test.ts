@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { MAX_SCREENING_REGEX_LENGTH, insertScreeningRuleSchema, isSafeScreeningRegex } from "./schema";
+
+describe("isSafeScreeningRegex", () => {
+  it.each([
+    ["a nested quantifier", "(a+)+$"],
+    ["a starred group of stars", "(a*)*"],
+    ["a counted quantifier in a repeated group", "(a{2,})+"],
+    ["an unbounded count on a repeated group", "(a+){2,}"],
+    ["a non-capturing nested quantifier", "(?:\\w+\\s?)+$"],
+    ["overlapping alternatives", "(a|aa)*$"],
+    ["overlapping character classes", "(\\w|\\d)+$"],
+    ["alternatives nested in a repeated group", "((a|ab)c?)+"],
+    ["a quantifier deep inside a repeated group", "(x(y+)z)*"],
+  ])("rejects %s", (_family, pattern) => {
+    expect(isSafeScreeningRegex(pattern)).toBe(false);
+  });
+
+  it.each([
+    ["plain words", "free\\s+money"],
+    ["a bounded repeat of a group", "(ab+){2}"],
+    ["an optional alternation", "(https?|ftp)?://"],
+    ["top-level alternatives", "cash ?app|venmo"],
+    ["quantifier characters inside a class", "[+*]+"],
+    ["an escaped parenthesis", "\\(a+\\)+"],
+  ])("accepts %s", (_family, pattern) => {
+    expect(isSafeScreeningRegex(pattern)).toBe(true);
+  });
+
+  it("rejects patterns over the length limit", () => {
+    expect(isSafeScreeningRegex("a".repeat(MAX_SCREENING_REGEX_LENGTH))).toBe(true);
+    expect(isSafeScreeningRegex("a".repeat(MAX_SCREENING_REGEX_LENGTH + 1))).toBe(false);
+  });
+
+  it("is enforced when a regex rule is saved", () => {
+    const rule = { name: "Spam", type: "regex" as const, action: "flag" as const, isActive: true };
+    expect(insertScreeningRuleSchema.safeParse({ ...rule, pattern: "(a|aa)*$" }).success).toBe(false);
+    expect(insertScreeningRuleSchema.safeParse({ ...rule, pattern: "free\\s+money" }).success).toBe(true);
+  });
+});
@@ -1,12 +1,25 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, timestamp, pgEnum, index, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, integer, timestamp, pgEnum, index, uniqueIndex, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
 export const genderEnum = pgEnum("gender", ["male", "female", "non-binary", "prefer_not_to_say"]);
+export const matchPreferenceEnum = pgEnum("match_preference", ["same_gender", "any_gender", "specific"]);
 export const partnershipStatusEnum = pgEnum("partnership_status", ["active", "completed", "ended_early", "cancelled"]);
 export const reportStatusEnum = pgEnum("report_status", ["pending", "investigating", "resolved", "dismissed"]);
 export const announcementTypeEnum = pgEnum("announcement_type", ["info", "warning", "maintenance", "update", "promotion"]);
+export const oddPoolPolicyEnum = pgEnum("odd_pool_policy", ["waitlist", "triad"]);
+export const matchRoundStatusEnum = pgEnum("match_round_status", ["draft", "committed", "cancelled"]);
+export const jobRunStatusEnum = pgEnum("job_run_status", ["running", "succeeded", "failed"]);
+export const checkInOutcomeEnum = pgEnum("check_in_outcome", ["great", "good", "mixed", "difficult"]);
+export const goalStatusEnum = pgEnum("goal_status", ["open", "completed"]);
+export const extensionStatusEnum = pgEnum("extension_status", ["pending", "accepted", "declined", "cancelled"]);
+export const meetingStatusEnum = pgEnum("meeting_status", ["proposed", "accepted", "declined", "cancelled"]);
+export const meetingRecurrenceEnum = pgEnum("meeting_recurrence", ["none", "weekly"]);
+export const messageRevisionActionEnum = pgEnum("message_revision_action", ["edited", "deleted"]);
+export const reportSourceEnum = pgEnum("report_source", ["member", "screening"]);
+export const screeningRuleTypeEnum = pgEnum("screening_rule_type", ["keywords", "regex", "links", "contact_info"]);
+export const screeningActionEnum = pgEnum("screening_action", ["block", "warn", "flag"]);
 
 // Session storage table - mandatory for Replit Auth
 export const sessions = pgTable(
@@ -33,32 +46,293 @@ export const users = pgTable("users", {
   username: text("username").unique(),
   name: text("name"),
   gender: genderEnum("gender"),
+  // Who the member is comfortable being matched with; honoured by both sides of a pair
+  matchPreference: matchPreferenceEnum("match_preference").default("same_gender"),
+  matchGenders: genderEnum("match_genders").array(), // Used when matchPreference is "specific"
   timezone: text("timezone"),
+  availability: text("availability").array(), // Declared availability window keys, in the member's local time
   isActive: boolean("is_active").default(true),
+  pausedUntil: timestamp("paused_until"), // Member skips match rounds until this date
   isAdmin: boolean("is_admin").default(false),
+  // Partners can't see when this member is online, idle, typing or last seen
+  hidePresence: boolean("hide_presence").default(false),
+  lastSeenAt: timestamp("last_seen_at"), // Last time the member was active in the app; never sent to partners when hidden
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Local-time windows members can declare on their profile; hours are [start, end)
+export const availabilityWindows = {
+  early_morning: { label: "Early morning (5am-8am)", start: 5, end: 8 },
+  morning: { label: "Morning (8am-12pm)", start: 8, end: 12 },
+  afternoon: { label: "Afternoon (12pm-5pm)", start: 12, end: 17 },
+  evening: { label: "Evening (5pm-9pm)", start: 17, end: 21 },
+  night: { label: "Night (9pm-12am)", start: 21, end: 24 },
+} as const;
+
+export type AvailabilityWindow = keyof typeof availabilityWindows;
+
+export const availabilitySchema = z
+  .array(z.enum(Object.keys(availabilityWindows) as [AvailabilityWindow, ...AvailabilityWindow[]]))
+  .max(Object.keys(availabilityWindows).length);
+
+export const matchPreferenceSchema = z
+  .object({
+    matchPreference: z.enum(matchPreferenceEnum.enumValues),
+    matchGenders: z.array(z.enum(genderEnum.enumValues)).default([]),
+  })
+  .refine((value) => value.matchPreference !== "specific" || value.matchGenders.length > 0, {
+    message: "Choose at least one gender to be matched with",
+    path: ["matchGenders"],
+  });
+
+// Admin changes to active partnerships
+export const manualPartnershipSchema = z.object({
+  user1Id: z.string().min(1),
+  user2Id: z.string().min(1),
+}).refine(({ user1Id, user2Id }) => user1Id !== user2Id, {
+  message: "Choose two different members",
+  path: ["user2Id"],
+});
+
+export const partnershipSwapSchema = z.object({
+  partnershipIdA: z.string().min(1),
+  memberA: z.string().min(1),
+  partnershipIdB: z.string().min(1),
+  memberB: z.string().min(1),
+}).refine(({ partnershipIdA, partnershipIdB }) => partnershipIdA !== partnershipIdB, {
+  message: "Choose two different partnerships",
+  path: ["partnershipIdB"],
+});
+
+// Members can pause matching for up to roughly six months at a time
+export const MAX_PAUSE_DAYS = 180;
+
+export const pauseMatchingSchema = z.object({
+  resumeAt: z.coerce.date(),
+}).refine(({ resumeAt }) => resumeAt.getTime() > Date.now(), {
+  message: "Resume date must be in the future",
+  path: ["resumeAt"],
+}).refine(({ resumeAt }) => resumeAt.getTime() <= Date.now() + MAX_PAUSE_DAYS * 24 * 60 * 60 * 1000, {
+  message: `Matching can be paused for at most ${MAX_PAUSE_DAYS} days`,
+  path: ["resumeAt"],
+});
+
+// Why a member was left without a partner in a matching run, or is waiting for a rematch
+export type UnmatchedReason = "no_compatible_partner" | "pool_exhausted" | "removed_by_admin" | "partnership_ended";
+
+export interface ProposedPair {
+  user1Id: string;
+  user2Id: string;
+  user3Id?: string; // Present when an odd pool member was added to form a triad
+  score?: number; // 0-1 compatibility score from the strategy; missing on older rounds
+  reasons: string[];
+}
+
+export interface UnmatchedUser {
+  userId: string;
+  reason: UnmatchedReason;
+  detail: string;
+}
+
+export interface MatchProposal {
+  candidateCount: number;
+  pairs: ProposedPair[];
+  unmatched: UnmatchedUser[];
+}
+
+// A matching run: drafted with a proposal, optionally edited by an admin, then committed
+export const matchRounds = pgTable("match_rounds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: matchRoundStatusEnum("status").default("draft").notNull(),
+  parameters: jsonb("parameters").$type<MatchingOptions>().notNull(),
+  proposal: jsonb("proposal").$type<MatchProposal>().notNull(),
+  createdBy: varchar("created_by").references(() => users.id), // Null for rounds run by the scheduler
+  committedBy: varchar("committed_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  committedAt: timestamp("committed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+});
+
 export const partnerships = pgTable("partnerships", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   user1Id: varchar("user1_id").notNull().references(() => users.id),
   user2Id: varchar("user2_id").notNull().references(() => users.id),
+  user3Id: varchar("user3_id").references(() => users.id), // Set only for triads formed from an odd pool
+  roundId: varchar("round_id").references(() => matchRounds.id), // Null for partnerships created before match rounds
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
   status: partnershipStatusEnum("status").default("active"),
-  successRate: text("success_rate"), // JSON string for tracking progress
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// One check-in per member per partnership week; resubmitting replaces that week's entry
+export const checkIns = pgTable(
+  "check_ins",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    weekNumber: integer("week_number").notNull(), // 1-based, counted from the partnership start date
+    met: boolean("met").notNull(),
+    outcome: checkInOutcomeEnum("outcome").notNull(),
+    rating: integer("rating").notNull(), // 1-5
+    notes: text("notes"),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_check_in_member_week").on(table.partnershipId, table.userId, table.weekNumber)],
+);
+
+// Shared goals either member of a partnership can add and work on
+export const goals = pgTable("goals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  description: text("description"),
+  status: goalStatusEnum("status").default("open").notNull(),
+  progress: integer("progress").default(0).notNull(), // Percent complete, 0-100
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Each change to a goal, kept so partners can see how it moved over the month
+export const goalUpdates = pgTable("goal_updates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goalId: varchar("goal_id").notNull().references(() => goals.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  action: varchar("action").notNull(), // "created", "progress", "completed" or "reopened"
+  progress: integer("progress").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Each member's end-of-partnership survey; also read by the matcher when pairing past partners
+export const partnershipFeedback = pgTable(
+  "partnership_feedback",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    rating: integer("rating").notNull(), // 1-5
+    wouldMatchAgain: boolean("would_match_again").notNull(),
+    comments: text("comments"), // Only visible to admins
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_feedback_member_partnership").on(table.partnershipId, table.userId)],
+);
+
+// A member's proposal to extend an active partnership; every other member must accept it
+export const partnershipExtensions = pgTable("partnership_extensions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+  requestedBy: varchar("requested_by").notNull().references(() => users.id),
+  weeks: integer("weeks").notNull(),
+  status: extensionStatusEnum("status").default("pending").notNull(),
+  acceptedBy: varchar("accepted_by").array().notNull().default(sql`'{}'::varchar[]`),
+  respondedBy: varchar("responded_by").references(() => users.id), // Member whose response settled the request
+  createdAt: timestamp("created_at").defaultNow(),
+  respondedAt: timestamp("responded_at"),
+});
+
+// A proposed meeting time; every other member must accept it before it reaches calendars.
+// Weekly meetings repeat at the same local time in `timezone` until the partnership ends.
+export const meetings = pgTable("meetings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+  proposedBy: varchar("proposed_by").notNull().references(() => users.id),
+  title: text("title").notNull(),
+  notes: text("notes"),
+  startsAt: timestamp("starts_at").notNull(),
+  durationMinutes: integer("duration_minutes").notNull(),
+  timezone: text("timezone").notNull(), // Proposer's IANA timezone when the meeting was proposed
+  recurrence: meetingRecurrenceEnum("recurrence").default("none").notNull(),
+  status: meetingStatusEnum("status").default("proposed").notNull(),
+  acceptedBy: varchar("accepted_by").array().notNull().default(sql`'{}'::varchar[]`),
+  respondedBy: varchar("responded_by").references(() => users.id), // Member who settled or cancelled the meeting
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Secret token in each member's calendar subscription URL; kept off users so it never leaves with profiles
+export const calendarFeeds = pgTable("calendar_feeds", {
+  userId: varchar("user_id").primaryKey().references(() => users.id),
+  token: varchar("token").notNull().unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Every status change of a partnership, with who made it and why
+export const partnershipStatusHistory = pgTable("partnership_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+  fromStatus: partnershipStatusEnum("from_status").notNull(),
+  toStatus: partnershipStatusEnum("to_status").notNull(),
+  changedBy: varchar("changed_by").references(() => users.id), // Null when the scheduler made the change
+  reason: text("reason").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
   senderId: varchar("sender_id").notNull().references(() => users.id),
-  content: text("content").notNull(),
+  content: text("content").notNull(), // Emptied on delete; the original is kept in messageRevisions
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Content a message had before each edit or delete. Members never see these; admins can
+// read them while handling a report about the partnership
+export const messageRevisions = pgTable(
+  "message_revisions",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    messageId: varchar("message_id").notNull().references(() => messages.id),
+    partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+    action: messageRevisionActionEnum("action").notNull(),
+    previousContent: text("previous_content").notNull(),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_message_revisions_partnership").on(table.partnershipId)],
+);
+
+// Files shared in a conversation. Uploaded first and attached when the message is sent;
+// the bytes live in blob storage (server/blobStorage.ts) under storageKey
+export const messageAttachments = pgTable(
+  "message_attachments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+    uploadedBy: varchar("uploaded_by").notNull().references(() => users.id),
+    messageId: varchar("message_id").references(() => messages.id), // Null until sent
+    fileName: varchar("file_name").notNull(),
+    contentType: varchar("content_type").notNull(),
+    size: integer("size").notNull(),
+    storageKey: varchar("storage_key").notNull(),
+    thumbnailKey: varchar("thumbnail_key"), // Images only; generated by the uploading browser
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [index("IDX_message_attachments_message").on(table.messageId)],
+);
+
+// How far each member has read a partnership's conversation; only ever moves forward
+export const messageReadCursors = pgTable(
+  "message_read_cursors",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    partnershipId: varchar("partnership_id").notNull().references(() => partnerships.id),
+    userId: varchar("user_id").notNull().references(() => users.id),
+    lastReadMessageId: varchar("last_read_message_id").notNull().references(() => messages.id),
+    lastReadAt: timestamp("last_read_at").notNull(), // createdAt of lastReadMessageId
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_read_cursor_member_partnership").on(table.partnershipId, table.userId)],
+);
+
 export const exclusions = pgTable("exclusions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id),
@@ -69,15 +343,76 @@ export const exclusions = pgTable("exclusions", {
 
 export const reports = pgTable("reports", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
-  reporterId: varchar("reporter_id").notNull().references(() => users.id),
+  reporterId: varchar("reporter_id").references(() => users.id), // Null for automated reports
   reportedUserId: varchar("reported_user_id").notNull().references(() => users.id),
   partnershipId: varchar("partnership_id").references(() => partnerships.id),
+  source: reportSourceEnum("source").notNull().default("member"),
+  messageId: varchar("message_id").references(() => messages.id), // The message that was flagged
   reason: text("reason").notNull(),
   description: text("description"),
   status: reportStatusEnum("status").default("pending"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Admin-configured checks run on every message before it is sent or edited; see
+// server/contentScreening.ts. `pattern` holds the keyword list or regex source
+export const screeningRules = pgTable("screening_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  type: screeningRuleTypeEnum("type").notNull(),
+  pattern: text("pattern"),
+  action: screeningActionEnum("action").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Members left over by a matching run get first priority in the next one
+export const matchWaitlist = pgTable("match_waitlist", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  reason: varchar("reason").notNull(), // Unmatched reason code from the matching engine
+  detail: text("detail"), // Member-facing explanation shown on the dashboard
+  createdAt: timestamp("created_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+  resolvedPartnershipId: varchar("resolved_partnership_id").references(() => partnerships.id),
+});
+
+// In-app notices shown on the member's dashboard until dismissed
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: varchar("type").notNull(), // e.g. "partnership_ended", "rematched"
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  partnershipId: varchar("partnership_id").references(() => partnerships.id),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// History of background jobs run by the in-process scheduler
+export const scheduledJobRuns = pgTable("scheduled_job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobName: varchar("job_name").notNull(),
+  status: jobRunStatusEnum("status").default("running").notNull(),
+  summary: text("summary"),
+  error: text("error"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+});
+
+// Record of admin changes to partnerships, for auditing who changed what and when
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adminId: varchar("admin_id").notNull().references(() => users.id),
+  action: varchar("action").notNull(), // e.g. "partnership.create", "partnership.swap"
+  targetType: varchar("target_type").notNull(),
+  targetId: varchar("target_id"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const inviteCodes = pgTable("invite_codes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   code: varchar("code", { length: 20 }).notNull().unique(),
@@ -167,6 +502,30 @@ export const insertMessageSchema = createInsertSchema(messages).pick({
   content: true,
 });
 
+// Also bounds the text content screening has to run its rules over
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_THUMBNAIL_BYTES = 256 * 1024;
+export const ATTACHMENT_THUMBNAIL_PX = 320;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 4;
+// Uploads a member has not sent yet, across all their partnerships; unsent uploads expire after a day
+export const MAX_UNSENT_ATTACHMENTS = 8;
+export const UNSENT_ATTACHMENT_MAX_AGE_HOURS = 24;
+export const attachmentContentTypes = ["image/png", "image/jpeg", "image/gif", "image/webp", "application/pdf", "text/plain"] as const;
+
+// A message needs text, attachments (uploaded beforehand), or both
+export const sendMessageSchema = insertMessageSchema
+  .extend({
+    content: z.string().max(MAX_MESSAGE_LENGTH, `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`),
+    attachmentIds: z.array(z.string().min(1)).max(MAX_ATTACHMENTS_PER_MESSAGE).default([]),
+    // Send even though content screening warned about the message
+    acknowledgeWarnings: z.boolean().default(false),
+  })
+  .refine((message) => message.content.trim() !== "" || message.attachmentIds.length > 0, {
+    message: "Write a message or attach a file",
+  });
+
 export const insertExclusionSchema = createInsertSchema(exclusions).pick({
   excludedUserId: true,
   reason: true,
@@ -179,6 +538,226 @@ export const insertReportSchema = createInsertSchema(reports).pick({
   description: true,
 });
 
+const isValidRegex = (source: string) => {
+  try {
+    new RegExp(source, "iu");
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const MAX_SCREENING_REGEX_LENGTH = 500;
+
+/**
+ * Rules run on every message, so a pattern that backtracks exponentially (like `(a+)+$`
+ * or `(a|aa)*$`) would stall screening. This rejects the usual culprits: a repeated group
+ * that contains an unbounded quantifier or alternatives, which may overlap. It is a
+ * heuristic, not a proof; server/contentScreening.ts also runs each rule under a time limit.
+ */
+export function isSafeScreeningRegex(source: string): boolean {
+  if (source.length > MAX_SCREENING_REGEX_LENGTH) return false;
+  // One entry per open group: whether it contains an unbounded quantifier or an alternation
+  const groups: { repeats: boolean; alternates: boolean }[] = [];
+  const isUnboundedQuantifier = (index: number) =>
+    source[index] === "*" || source[index] === "+" || (source[index] === "{" && /^\{\d*,\d*\}/.test(source.slice(index)));
+  const markOpenGroups = () => groups.forEach((group) => (group.repeats = true));
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === "\\") {
+      i++;
+    } else if (char === "[") {
+      // Skip the character class; quantifier characters inside it are literal
+      for (i++; i < source.length && source[i] !== "]"; i++) {
+        if (source[i] === "\\") i++;
+      }
+    } else if (char === "(") {
+      groups.push({ repeats: false, alternates: false });
+    } else if (char === "|") {
+      if (groups.length > 0) groups[groups.length - 1].alternates = true;
+    } else if (char === ")") {
+      const group = groups.pop();
+      if (!group) continue;
+      if ((group.repeats || group.alternates) && isUnboundedQuantifier(i + 1)) return false;
+      // Alternatives nested in a group make the enclosing group ambiguous too
+      if (group.alternates && groups.length > 0) groups[groups.length - 1].alternates = true;
+    } else if (isUnboundedQuantifier(i)) {
+      markOpenGroups();
+    }
+  }
+  return true;
+}
+
+export const insertScreeningRuleSchema = createInsertSchema(screeningRules)
+  .pick({
+    type: true,
+    action: true,
+    isActive: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Rule name is required").max(100),
+    // Keywords: one per line or comma separated. Regex: a JavaScript pattern, matched case-insensitively
+    pattern: z.string().trim().max(5000).optional(),
+  })
+  .refine((rule) => !["keywords", "regex"].includes(rule.type) || !!rule.pattern, {
+    message: "Keyword and regex rules need a pattern",
+    path: ["pattern"],
+  })
+  .refine((rule) => rule.type !== "regex" || !rule.pattern || isValidRegex(rule.pattern), {
+    message: "Not a valid regular expression",
+    path: ["pattern"],
+  })
+  .refine((rule) => rule.type !== "regex" || !rule.pattern || isSafeScreeningRegex(rule.pattern), {
+    message: `Regular expressions can be at most ${MAX_SCREENING_REGEX_LENGTH} characters and can't repeat a group that already repeats or has alternatives, like (a+)+ or (a|b)*`,
+    path: ["pattern"],
+  });
+
+export const insertCheckInSchema = createInsertSchema(checkIns)
+  .pick({
+    met: true,
+    outcome: true,
+  })
+  .extend({
+    rating: z.number().int().min(1).max(5),
+    notes: z.string().trim().max(1000).optional(),
+  });
+
+export const insertGoalSchema = createInsertSchema(goals)
+  .pick({
+    title: true,
+  })
+  .extend({
+    title: z.string().trim().min(1, "Goal title is required").max(200),
+    description: z.string().trim().max(1000).optional(),
+  });
+
+// A member's update to a goal; at least one of progress or status must change
+export const goalUpdateSchema = z
+  .object({
+    progress: z.number().int().min(0).max(100).optional(),
+    status: z.enum(goalStatusEnum.enumValues).optional(),
+    note: z.string().trim().max(500).optional(),
+  })
+  .refine((update) => update.progress !== undefined || update.status !== undefined, {
+    message: "Provide progress or a new status",
+  });
+
+export const insertPartnershipFeedbackSchema = createInsertSchema(partnershipFeedback)
+  .pick({
+    wouldMatchAgain: true,
+  })
+  .extend({
+    rating: z.number().int().min(1).max(5),
+    comments: z.string().trim().max(1000).optional(),
+  });
+
+export const MAX_EXTENSION_WEEKS = 8;
+
+export const partnershipExtensionRequestSchema = z.object({
+  weeks: z.number().int().min(1).max(MAX_EXTENSION_WEEKS),
+});
+
+export const partnershipExtensionResponseSchema = z.object({
+  accept: z.boolean(),
+});
+
+export const insertMeetingSchema = createInsertSchema(meetings)
+  .pick({
+    recurrence: true,
+  })
+  .extend({
+    title: z.string().trim().min(1, "Meeting title is required").max(200),
+    notes: z.string().trim().max(1000).optional(),
+    startsAt: z.coerce.date(),
+    durationMinutes: z.number().int().min(15).max(180),
+    // Browser timezone, used when the proposer has not set one on their profile
+    timezone: z.string().trim().min(1).max(100).optional(),
+  });
+
+export const MESSAGE_PAGE_SIZE = 50;
+
+// Message history is paged by message id: `before` walks back in time, `after` catches up
+export const messagePageQuerySchema = z
+  .object({
+    before: z.string().min(1).optional(),
+    after: z.string().min(1).optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(MESSAGE_PAGE_SIZE),
+  })
+  .refine((query) => !(query.before && query.after), {
+    message: "Use either before or after, not both",
+  });
+
+// Members can change or retract their own messages for this long after sending them
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export const editMessageSchema = z.object({
+  content: z.string().trim().min(1, "Message can't be empty").max(MAX_MESSAGE_LENGTH, `Messages can be at most ${MAX_MESSAGE_LENGTH} characters`),
+  acknowledgeWarnings: z.boolean().default(false),
+});
+
+// What a browser tab tells the server over the realtime socket
+export const realtimeClientEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("typing"), partnershipId: z.string().min(1) }),
+  // The tab has had no input for a while, or is hidden
+  z.object({ type: z.literal("activity"), idle: z.boolean() }),
+]);
+
+export const markMessagesReadSchema = z.object({
+  // Newest message the member has seen; everything up to it counts as read
+  messageId: z.string().min(1),
+});
+
+export const meetingResponseSchema = z.object({
+  accept: z.boolean(),
+});
+
+// Strategies live in server/matchingStrategies.ts
+export const matchingStrategyNames = ["scored", "random"] as const;
+export type MatchingStrategyName = (typeof matchingStrategyNames)[number];
+
+// Matching run options (admin supplied)
+export const matchingOptionsSchema = z.object({
+  strategy: z.enum(matchingStrategyNames).default("scored"),
+  // Number of each member's most recent partnerships whose partners should not be repeated
+  repeatLookbackRounds: z.coerce.number().int().min(0).max(24).default(3),
+  // What to do with members left over when a pool cannot be fully paired
+  oddPoolPolicy: z.enum(oddPoolPolicyEnum.enumValues).default("waitlist"),
+  // Largest allowed clock-time difference between partners; 12 allows any pairing
+  maxTimezoneOffsetHours: z.coerce.number().min(0).max(12).default(12),
+});
+
+// Admin edits to a draft round's proposal
+export const matchProposalEditSchema = z.discriminatedUnion("action", [
+  z.object({
+    action: z.literal("remove"),
+    pairIndex: z.number().int().min(0),
+  }),
+  z.object({
+    action: z.literal("swap"),
+    // Exchange memberA of pair pairIndexA with memberB of pair pairIndexB
+    pairIndexA: z.number().int().min(0),
+    memberA: z.string().min(1),
+    pairIndexB: z.number().int().min(0),
+    memberB: z.string().min(1),
+  }),
+]);
+
+// Requested partnership status change; allowed transitions live in server/partnershipLifecycle.ts
+export const partnershipTransitionSchema = z.object({
+  status: z.enum(["completed", "ended_early", "cancelled"]),
+  reason: z.string().trim().max(500).optional(),
+});
+
+// A member ending their own partnership before its end date
+export const endPartnershipSchema = z.object({
+  reason: z.string().trim().min(1, "Please tell us why you're ending the partnership").max(500),
+  // Also exclude the other member(s) from future matching
+  excludePartner: z.boolean().default(false),
+  // Look for a new partner in the waiting pool straight away
+  requestRematch: z.boolean().default(false),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -189,13 +768,98 @@ export type RegisterUser = z.infer<typeof registerUserSchema>;
 export type LoginUser = z.infer<typeof loginUserSchema>;
 export type AdminBootstrap = z.infer<typeof adminBootstrapSchema>;
 export type Partnership = typeof partnerships.$inferSelect;
+export type PartnershipStatus = NonNullable<Partnership["status"]>;
+export type PartnershipStatusChange = typeof partnershipStatusHistory.$inferSelect;
+export type MatchWaitlistEntry = typeof matchWaitlist.$inferSelect;
+export type MatchRound = typeof matchRounds.$inferSelect;
+export type ScheduledJobRun = typeof scheduledJobRuns.$inferSelect;
+export type AdminAuditLogEntry = typeof adminAuditLog.$inferSelect;
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type MessageReadCursor = typeof messageReadCursors.$inferSelect;
+export type SendMessage = z.infer<typeof sendMessageSchema>;
+export type MessageAttachment = typeof messageAttachments.$inferSelect;
+// What members see of an attachment; storage keys stay on the server
+export type AttachmentSummary = Pick<MessageAttachment, "id" | "messageId" | "fileName" | "contentType" | "size"> & { hasThumbnail: boolean };
+export type MessageSender = Pick<User, "id" | "name" | "profileImageUrl">;
+export type MessageWithSender = Message & { sender: MessageSender | null; attachments: AttachmentSummary[] };
+export type RealtimeClientEvent = z.infer<typeof realtimeClientEventSchema>;
+export type PresenceStatus = "online" | "idle" | "offline";
+// Null when the member hides their presence
+export type PartnerPresence = { status: PresenceStatus; lastSeenAt: Date | null } | null;
+// What server/realtime.ts publishes to members' sockets
+export type RealtimeEvent =
+  | { type: "message"; partnershipId: string; message: MessageWithSender }
+  | { type: "message_updated"; partnershipId: string; message: MessageWithSender }
+  | { type: "read"; partnershipId: string; cursor: MessageReadCursor }
+  | { type: "presence"; userId: string; presence: PartnerPresence }
+  | { type: "typing"; partnershipId: string; userId: string };
+// A value as the browser receives it after JSON: dates become ISO strings
+export type Serialized<T> = T extends Date
+  ? string
+  : T extends (infer Item)[]
+    ? Serialized<Item>[]
+    : T extends object
+      ? { [Key in keyof T]: Serialized<T[Key]> }
+      : T;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type MessageRevisionAction = MessageRevision["action"];
+export type MessagePageQuery = z.infer<typeof messagePageQuerySchema>;
+// Messages are oldest first; hasMore refers to the direction that was paged
+export type MessagePage = { messages: MessageWithSender[]; hasMore: boolean };
+export type MessageWithRevisions = MessageWithSender & { revisions: MessageRevision[] };
 export type Exclusion = typeof exclusions.$inferSelect;
 export type InsertExclusion = z.infer<typeof insertExclusionSchema>;
+export type CheckIn = typeof checkIns.$inferSelect;
+export type InsertCheckIn = z.infer<typeof insertCheckInSchema>;
+export type Goal = typeof goals.$inferSelect;
+export type GoalUpdate = typeof goalUpdates.$inferSelect;
+export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type GoalChange = z.infer<typeof goalUpdateSchema>;
+export type PartnershipFeedback = typeof partnershipFeedback.$inferSelect;
+export type InsertPartnershipFeedback = z.infer<typeof insertPartnershipFeedbackSchema>;
+export type PartnershipExtension = typeof partnershipExtensions.$inferSelect;
+export type Meeting = typeof meetings.$inferSelect;
+export type MeetingStatus = Meeting["status"];
+export type InsertMeeting = z.infer<typeof insertMeetingSchema>;
 export type Report = typeof reports.$inferSelect;
+export type ScreeningRule = typeof screeningRules.$inferSelect;
+export type ScreeningRuleType = ScreeningRule["type"];
+export type ScreeningAction = ScreeningRule["action"];
+export type InsertScreeningRule = z.infer<typeof insertScreeningRuleSchema>;
 export type InsertReport = z.infer<typeof insertReportSchema>;
 export type InviteCode = typeof inviteCodes.$inferSelect;
 export type InsertInviteCode = z.infer<typeof insertInviteCodeSchema>;
 export type Announcement = typeof announcements.$inferSelect;
 export type InsertAnnouncement = z.infer<typeof insertAnnouncementSchema>;
+export type MatchingOptions = z.infer<typeof matchingOptionsSchema>;
+export type MatchProposalEdit = z.infer<typeof matchProposalEditSchema>;
+export type ManualPartnership = z.infer<typeof manualPartnershipSchema>;
+export type PartnershipSwap = z.infer<typeof partnershipSwapSchema>;
+export type PartnershipTransition = z.infer<typeof partnershipTransitionSchema>;
+export type EndPartnership = z.infer<typeof endPartnershipSchema>;
+export type Notification = typeof notifications.$inferSelect;
+
+// Partnerships are pairs, or triads when an odd pool was resolved with a third member
+export function getPartnershipMemberIds(partnership: { user1Id: string; user2Id: string; user3Id?: string | null }): string[] {
+  return [partnership.user1Id, partnership.user2Id, partnership.user3Id].filter((id): id is string => !!id);
+}
+
+// Pauses end on their own once the resume date passes
+export function isMatchingPaused(user: { pausedUntil: Date | string | null }, at: Date = new Date()): boolean {
+  return !!user.pausedUntil && new Date(user.pausedUntil).getTime() > at.getTime();
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// 1-based partnership week containing `at`, clamped to the partnership's span
+export function getPartnershipWeek(
+  partnership: { startDate: Date | string; endDate: Date | string },
+  at: Date = new Date(),
+): { week: number; totalWeeks: number } {
+  const start = new Date(partnership.startDate).getTime();
+  const end = new Date(partnership.endDate).getTime();
+  const totalWeeks = Math.max(1, Math.ceil((end - start) / WEEK_MS));
+  const week = Math.floor((at.getTime() - start) / WEEK_MS) + 1;
+  return { week: Math.min(Math.max(week, 1), totalWeeks), totalWeeks };
+}